@@ -1,107 +1,249 @@
-import Listener from "./listener";
+import Listener, { ListenerSource } from "./listener";
 import EventEmitter from "events";
-import SoundWaveForge from "./theForge";
-import { database, discord } from "./index";
-import type { Soundwave } from "./types";
+import type { Announcer, ListenerAccount, ServerConfig, Soundwave, SpawnLog, SpawnRecord } from "./types";
 import "dotenv/config";
 import { time } from "discord.js";
-import { Observation, generateCandidateFractions, triangulateEventByResidual, triangulateEventLinear } from "./cracking/triangulation";
 import { computeRelativeCoords } from "./cracking/build_test_utils";
+import Correlator, { CorrelatedEvent } from "./correlator";
+import { solve, Solution, toObservations } from "./solver";
+import { getWorldEvent } from "./worldEvents";
+import Journal from "./journal";
+import { assessObservation, ListenerHealth } from "./health";
+import LocationRegistry, { ordinal } from "./locations";
+import { spawnFields } from "./embeds";
+import { toSpawnRecord } from "./spawnRecord";
 
 /**
  * The frequency foundry, all the listeners are created and will listen here.
  */
 
-const users = process.env.accounts!.split(",");
-const userAmt = process.env.acc_amt == null ? users.length : parseInt(process.env.acc_amt);
-users.splice(userAmt);
+export interface FoundryOptions {
+    /** Creates the listener of each fleet account, defaults to a live mineflayer bot. */
+    createListener?: (account: ListenerAccount) => ListenerSource;
+    /** Where resolved events are logged, nothing is logged without one. */
+    database?: SpawnLog;
+    /** Where resolved events are announced, nothing is announced without one. */
+    discord?: Announcer;
+    /** Where raw packets are journaled, nothing is journaled without one. */
+    journal?: Journal;
+    /** Known locations resolved events are matched against, nothing is matched without one. */
+    locations?: LocationRegistry;
+    /**
+     * Draws the picture attached to announcements, they go out without one when missing.
+     * Passed in so tools that never announce do not load the native canvas.
+     */
+    renderGraph?: (spawn: SpawnRecord) => Buffer;
+}
+
+/**
+ * A correlated event the solvers found a location for.
+ */
+export interface ResolvedEvent {
+    /** The event, without the observations that were excluded from the solve. */
+    event: CorrelatedEvent;
+    solution: Solution;
+    /** What gets logged to the database. */
+    spawn: SpawnRecord;
+    /** Why some of the used observations are suspicious. */
+    flags: string[];
+}
+
+class Foundry extends EventEmitter {
+    private soundListeners: Map<number, ListenerSource> = new Map();
+    private fleetListeners: ListenerSource[] = [];
+    public readonly server: ServerConfig;
+    private fleet: ListenerAccount[];
+    private createListener: (account: ListenerAccount) => ListenerSource;
+    private database?: SpawnLog;
+    private discord?: Announcer;
+    private journal?: Journal;
+    private locations?: LocationRegistry;
+    private renderGraph?: (spawn: SpawnRecord) => Buffer;
+
+    /**
+     * Groups incoming soundwaves into events, see {@link Correlator}.
+     */
+    private correlator: Correlator;
+
+    constructor(server: ServerConfig, options: FoundryOptions = {}) {
+        super();
+        this.server = server;
+        this.fleet = server.accounts;
+        this.createListener = options.createListener ?? ((account) => new Listener(account, server));
+        this.database = options.database;
+        this.discord = options.discord;
+        this.journal = options.journal;
+        this.locations = options.locations;
+        this.renderGraph = options.renderGraph;
+        this.correlator = new Correlator(this.fleet.length, server.correlationWindow);
+        this.correlator.on("event", (event) => this.performCalculations(event));
+    }
+
+    /**
+     * Starts the fleet, resolves once every listener has been created.
+     */
+    public initialize(): Promise<void> {
+        return this.startListeners();
+    }
 
-export default class Foundry extends EventEmitter {
-  /**
-   * Our last three soundwaves. Clear after three. and on three we perform calculations.
-   */
-  private soundCache = new Map<number, Soundwave>();
+    /**
+     * Feeds a soundwave heard by the given fleet account into correlation.
+     */
+    public ingest(acc: number, wave: Soundwave): void {
+        this.correlator.push(acc, wave);
+    }
 
-    private soundListeners: Map<number, Listener> = new Map();
-    private listenerUserNames: { acc: number, email: string | undefined }[] = [
-        { acc: 1, email: process.env.account1 },
-        { acc: 3, email: process.env.account3 } ,// only two now
-    ];
+    /**
+     * Closes every open correlation group right away instead of waiting for its window.
+     */
+    public flush(): void {
+        this.correlator.closeAll();
+    }
 
-  constructor() {
-    super();
-  }
+    /**
+     * Health of every listener of the fleet.
+     */
+    public health(): ListenerHealth[] {
+        return this.fleetListeners.map((listener) => listener.health());
+    }
 
-  public initialize(): void {
-    this.startListeners();
-  }
+    /**
+     * Stops every listener and solves whatever is still waiting for its window.
+     */
+    public stop(): void {
+        for (const listener of this.fleetListeners) {
+            listener.stop();
+        }
+        this.flush();
+    }
 
-  private async startListeners(): Promise<void> {
-    for (let i = 0; i < this.listenerUserNames.length; i++) {
-      const listener = new Listener(this.listenerUserNames[i].email as string);
+    private async startListeners(): Promise<void> {
+        for (const account of this.fleet) {
+            const listener = this.createListener(account);
+            this.fleetListeners.push(listener);
 
+            listener.on("packet", (record) => {
+                this.journal?.append({ server: this.server.name, listener: account.id, ...record });
+            });
             listener.on("soundwave", (wave) => {
-                this.soundCache.set(this.listenerUserNames[i].acc, wave);
-                console.log(`User: ${wave.user} emitted a soundwave.`);
-
-                if (this.soundCache.size === 2) {
-                    console.log("Both listeners have emitted. Performing calculation...");
-                    this.performCalculations();
-                    this.soundCache.clear();
-                }
+                console.log(`User: ${wave.user} emitted a ${wave.event} soundwave.`);
+                this.ingest(account.id, wave);
             });
 
-      listener.bot.once('spawn', () => {
-        this.soundListeners.set(this.listenerUserNames[i].acc, listener);
-      })
+            listener.on("ready", () => {
+                this.soundListeners.set(account.id, listener);
+            });
+            listener.on("disconnect", () => {
+                this.soundListeners.delete(account.id);
+            });
+            listener.on("drift", (drift) => {
+                this.discord?.sendMessageToChannel(
+                    this.server.channel,
+                    `Listener ${account.id} (${account.username}) is ${Math.round(drift)} blocks away from its post.`
+                );
+            });
+            listener.on("authCode", (data) => {
+                this.discord?.sendMessageToChannel(
+                    this.server.channel,
+                    `Listener ${account.id} (${account.username}) needs to sign in to Microsoft: open ${data.verification_uri} and enter code \`${data.user_code}\`.`
+                );
+            });
+            listener.on("failed", (reason) => {
+                this.discord?.sendMessageToChannel(
+                    this.server.channel,
+                    `Listener ${account.id} (${account.username}) stopped: ${reason}. Triangulating with ${this.soundListeners.size}/${this.fleet.length} listeners.`
+                );
+            });
 
-      await new Promise((r) => setTimeout(r, 500));
+            await new Promise((r) => setTimeout(r, 500));
+        }
     }
-  }
 
-    private async performCalculations(): Promise<void> {
-        const wave1 = this.soundCache.get(1);
-        const wave3 = this.soundCache.get(3);
+    private async performCalculations(correlated: CorrelatedEvent): Promise<void> {
+        if (!correlated.complete) {
+            console.log(`[${this.server.name}] ${correlated.event} correlation window closed with ${correlated.waves.size}/${this.fleet.length} listeners.`);
+        }
 
-        if (!wave1 || !wave3) {
-            console.error("Could not find both soundwaves.");
-            return;
+        const flags: string[] = [];
+        const waves = new Map<number, Soundwave>();
+        for (const [acc, wave] of correlated.waves) {
+            const account = this.fleet.find((a) => a.id === acc);
+            const listener = this.fleetListeners.find((l) => l.account.id === acc);
+            const { exclude, flag } = account ? assessObservation(account, wave, listener?.health() ?? null) : {};
+            if (exclude) {
+                console.warn(`Excluding observation from listener ${acc}: ${exclude}.`);
+                continue;
+            }
+            if (flag) flags.push(flag);
+            waves.set(acc, wave);
         }
+        const event: CorrelatedEvent = { ...correlated, waves };
 
-        console.log(`(1) ${wave1.user} => bPos(${wave1.bPosition.x},${wave1.bPosition.y},${wave1.bPosition.z}) wPos(${wave1.wPosition.x},${wave1.wPosition.y},${wave1.wPosition.z})`);
-        console.log(`(3) ${wave3.user} => bPos(${wave3.bPosition.x},${wave3.bPosition.y},${wave3.bPosition.z}) wPos(${wave3.wPosition.x},${wave3.wPosition.y},${wave3.wPosition.z})`);
+        if (event.waves.size < 2) {
+            console.error("Not enough soundwaves to triangulate.");
+            return;
+        }
 
-        const pos = SoundWaveForge.calculateAccurateWitherSpawn(
-            wave1.bPosition, wave1.wPosition,
-            wave3.bPosition, wave3.wPosition,
-            8
-        );
+        for (const [acc, wave] of event.waves) {
+            console.log(`(${acc}) ${wave.user} => bPos(${wave.bPosition.x},${wave.bPosition.y},${wave.bPosition.z}) wPos(${wave.wPosition.x},${wave.wPosition.y},${wave.wPosition.z})`);
+        }
 
-    
-        console.log("Intersection:", pos);
+        const solution = solve(toObservations([...event.waves.values()]), this.server.solvers);
+        console.log("Solution:", solution);
 
-        if (!pos) {
-            console.log("No intersection found.");
+        if (!solution) {
+            console.log("No solver found a solution.");
             return;
         }
 
-        database.logSpawn(pos);
-        discord.sendCoordinatesEmbed(
-            process.env.channel as string,
-            "yellow",
-            { x: Math.floor(pos.x), y: Math.floor(pos.y), z: Math.floor(pos.z) },
-            "Wither Spawn",
-            process.env.mc_server as string,
-            `
-            A wither has just spawned! \n
+        const spawn = toSpawnRecord(this.server.name, event, solution, this.fleet);
+        const location = this.locations?.match(spawn) ?? null;
+        spawn.location = location?.name ?? null;
+        this.database?.logSpawn(spawn).catch((error) => {
+            console.error(`Error logging ${spawn.eventType} on ${this.server.name}:`, error);
+        });
+        this.emit("resolved", { event, solution, spawn, flags });
+
+        const worldEvent = getWorldEvent(event.event);
+        // Capped, a stalled database delays the announcement by a moment at most
+        const today = location ? await this.locations!.spawnsToday(location, spawn) : null;
+
+        // The announcement goes out without the graph rather than not at all
+        let graph: Buffer | undefined;
+        try {
+            graph = this.discord ? this.renderGraph?.(spawn) : undefined;
+        } catch (error) {
+            console.error(`Error rendering the graph of ${spawn.uid}:`, error);
+        }
+        // The solvers only work in the xz-plane, the embed leaves the height out
+        this.discord?.sendCoordinatesEmbed(
+            this.server.channel,
+            worldEvent.color,
+            { x: Math.floor(solution.x), z: Math.floor(solution.z) },
+            worldEvent.title,
+            this.server.name,
+            {
+                description: `
+            ${worldEvent.description} \n
+            ${location ? `Probably ${location.name}${location.tags.length > 0 ? ` (${location.tags.join(", ")})` : ""}${today == null ? "" : `, ${ordinal(today)} spawn today`} \n` : ""}
+            ${flags.map((flag) => `⚠️ ${flag} \n`).join("")}
             If you are using the mod. copy and paste:
             \`\`\`
-.drawline ${wave1.bPosition.x} ${wave1.bPosition.z} ${wave1.wPosition.x} ${wave1.wPosition.z}
-&
-.drawline ${wave3.bPosition.x} ${wave3.bPosition.z} ${wave3.wPosition.x} ${wave3.wPosition.z}
+${[...event.waves.values()].map((wave) => `.drawline ${wave.bPosition.x} ${wave.bPosition.z} ${wave.wPosition.x} ${wave.wPosition.z}`).join("\n&\n")}
             \`\`\`            
-            `
+            `,
+                fields: spawnFields(spawn),
+                image: graph,
+                spawnUid: spawn.uid,
+            }
         );
     }
 
 }
+
+declare interface Foundry {
+    emit(event: "resolved", resolved: ResolvedEvent): boolean;
+    on(event: "resolved", listener: (resolved: ResolvedEvent) => void): this;
+}
+
+export default Foundry;
@@ -0,0 +1,260 @@
+import type { Base, SpawnRecord, StoredSpawn } from "./types";
+import type { WorldEventName } from "./worldEvents";
+import type { SpawnStorage } from "./storage";
+import { findAllSpawns } from "./storage/query";
+
+/**
+ * How spawns are clustered into bases.
+ */
+export const basePolicy = {
+    /** Spawns closer than this (blocks) are neighbours. */
+    radius: process.env.base_radius == null ? 256 : parseFloat(process.env.base_radius),
+    /** Total weight of a spawn's neighbourhood (itself included) that makes it the core of a base. */
+    minWeight: process.env.base_min_weight == null ? 3 : parseFloat(process.env.base_min_weight),
+    /** Dragon deaths and portals happen at fixed structures, not where players live. */
+    events: (process.env.base_events ?? "wither_spawned").split(",").map((e) => e.trim()) as WorldEventName[],
+};
+
+type Point = Pick<StoredSpawn, "uid" | "x" | "z" | "errorRadius" | "observedAt">;
+
+/**
+ * A precise spawn counts fully, one whose error radius equals the neighbour radius counts half.
+ * Rows without an error radius are treated as that imprecise.
+ */
+export function spawnWeight(spawn: Point): number {
+    return 1 / (1 + (spawn.errorRadius ?? basePolicy.radius) / basePolicy.radius);
+}
+
+/**
+ * DBSCAN with weighted density: a spawn is a core when the weights of its neighbours add up to `minWeight`,
+ * a base is every spawn reachable through cores. Spawns that are in no base are left out.
+ */
+export function clusterSpawns<T extends Point>(spawns: T[]): T[][] {
+    const { radius, minWeight } = basePolicy;
+    const cellOf = (x: number, z: number) => `${Math.floor(x / radius)},${Math.floor(z / radius)}`;
+    const grid = new Map<string, number[]>();
+    spawns.forEach((spawn, i) => {
+        const cell = cellOf(spawn.x, spawn.z);
+        const members = grid.get(cell);
+        if (members) members.push(i);
+        else grid.set(cell, [i]);
+    });
+
+    // Spawns of each cell that are not queued yet, cells without any are skipped when growing a base
+    const open = new Map<string, number>();
+    for (const [cell, members] of grid) open.set(cell, members.length);
+    const around = (i: number): string[] => {
+        const { x, z } = spawns[i];
+        const cells: string[] = [];
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dz = -1; dz <= 1; dz++) {
+                cells.push(cellOf(x + dx * radius, z + dz * radius));
+            }
+        }
+        return cells;
+    };
+    const near = (i: number, j: number) => Math.hypot(spawns[j].x - spawns[i].x, spawns[j].z - spawns[i].z) <= radius;
+    const weights = spawns.map(spawnWeight);
+    const isCore = (i: number): boolean => {
+        let weight = 0;
+        for (const cell of around(i)) {
+            for (const j of grid.get(cell) ?? []) {
+                if (!near(i, j)) continue;
+                weight += weights[j];
+                if (weight >= minWeight) return true;
+            }
+        }
+        return false;
+    };
+
+    const unvisited = -1, noise = -2;
+    const labels = new Array<number>(spawns.length).fill(unvisited);
+    // Every spawn is queued at most once, so growing a dense base stays linear in its size
+    const queued = new Array<boolean>(spawns.length).fill(false);
+    const queue: number[] = [];
+    const markQueued = (j: number) => {
+        queued[j] = true;
+        const cell = cellOf(spawns[j].x, spawns[j].z);
+        open.set(cell, open.get(cell)! - 1);
+    };
+    const enqueueNeighbours = (i: number) => {
+        for (const cell of around(i)) {
+            if (!open.get(cell)) continue;
+            for (const j of grid.get(cell)!) {
+                if (queued[j] || !near(i, j)) continue;
+                markQueued(j);
+                queue.push(j);
+            }
+        }
+    };
+
+    let clusters = 0;
+    for (let i = 0; i < spawns.length; i++) {
+        if (labels[i] !== unvisited) continue;
+        if (!isCore(i)) {
+            labels[i] = noise;
+            continue;
+        }
+        const cluster = clusters++;
+        labels[i] = cluster;
+        markQueued(i);
+        enqueueNeighbours(i);
+        while (queue.length > 0) {
+            const j = queue.pop()!;
+            // Noise is known not to be a core, it joins as a border spawn
+            const wasNoise = labels[j] === noise;
+            labels[j] = cluster;
+            if (!wasNoise && isCore(j)) enqueueNeighbours(j);
+        }
+    }
+
+    const result: T[][] = Array.from({ length: clusters }, () => []);
+    spawns.forEach((spawn, i) => {
+        if (labels[i] >= 0) result[labels[i]].push(spawn);
+    });
+    return result;
+}
+
+export function describeBase(name: string, server: string, spawns: Point[]): Base {
+    const weights = spawns.map(spawnWeight);
+    const total = weights.reduce((a, b) => a + b, 0);
+    const hours = new Array<number>(24).fill(0);
+    const weekdays = new Array<number>(7).fill(0);
+    for (const spawn of spawns) {
+        const date = new Date(spawn.observedAt);
+        hours[date.getUTCHours()]++;
+        weekdays[date.getUTCDay()]++;
+    }
+    return {
+        name,
+        server,
+        centroid: {
+            x: spawns.reduce((sum, s, i) => sum + s.x * weights[i], 0) / total,
+            z: spawns.reduce((sum, s, i) => sum + s.z * weights[i], 0) / total,
+        },
+        extent: {
+            minX: spawns.reduce((min, s) => Math.min(min, s.x), Infinity),
+            maxX: spawns.reduce((max, s) => Math.max(max, s.x), -Infinity),
+            minZ: spawns.reduce((min, s) => Math.min(min, s.z), Infinity),
+            maxZ: spawns.reduce((max, s) => Math.max(max, s.z), -Infinity),
+        },
+        spawnCount: spawns.length,
+        firstSeen: spawns.reduce((min, s) => Math.min(min, s.observedAt), Infinity),
+        lastSeen: spawns.reduce((max, s) => Math.max(max, s.observedAt), -Infinity),
+        activity: { hours, weekdays },
+    };
+}
+
+function overlaps(a: Base["extent"], b: Base["extent"], margin = 0): boolean {
+    return a.minX - margin <= b.maxX && b.minX - margin <= a.maxX && a.minZ - margin <= b.maxZ && b.minZ - margin <= a.maxZ;
+}
+
+/**
+ * Keeps the `bases` table up to date. `rebuild` clusters everything, `add` only reclusters around a new spawn.
+ */
+export default class BaseTracker {
+    /** Updates run one at a time so two spawns cannot both create the same base. */
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private storage: SpawnStorage) {}
+
+    /**
+     * Reclusters every stored spawn, bases that still exist keep their name.
+     */
+    rebuild(server?: string): Promise<void> {
+        return this.enqueue(async () => {
+            const spawns = await this.findSpawns({ server });
+            const byServer = new Map<string, StoredSpawn[]>();
+            for (const spawn of spawns) {
+                const members = byServer.get(spawn.server);
+                if (members) members.push(spawn);
+                else byServer.set(spawn.server, [spawn]);
+            }
+
+            const existing = await this.storage.listBases(server);
+            const kept = new Set<string>();
+            for (const [name, members] of byServer) {
+                const bases = existing.filter((base) => base.server === name);
+                for (const cluster of clusterSpawns(members)) {
+                    const base = this.nameBase(name, cluster, bases, [...bases.map((b) => b.name), ...kept], kept);
+                    kept.add(base.name);
+                    await this.storage.saveBase(base);
+                }
+            }
+            for (const base of existing) {
+                if (!kept.has(base.name)) await this.storage.deleteBase(base.name);
+            }
+            console.log(`Found ${kept.size} bases in ${spawns.length} spawns.`);
+        });
+    }
+
+    /**
+     * Reclusters the spawns around a new one. Only bases within two radii can change: the new spawn
+     * can turn its neighbours into cores, and those reach at most one radius further. Deciding whether
+     * those spawns are cores takes one more radius around them.
+     */
+    add(spawn: SpawnRecord): Promise<void> {
+        if (!basePolicy.events.includes(spawn.eventType)) return Promise.resolve();
+        return this.enqueue(async () => {
+            const { radius } = basePolicy;
+            const existing = await this.storage.listBases(spawn.server);
+            const near = { minX: spawn.x, maxX: spawn.x, minZ: spawn.z, maxZ: spawn.z };
+            const affected = existing.filter((base) => overlaps(base.extent, near, 2 * radius));
+
+            const bbox = { minX: spawn.x - 3 * radius, maxX: spawn.x + 3 * radius, minZ: spawn.z - 3 * radius, maxZ: spawn.z + 3 * radius };
+            for (const base of affected) {
+                bbox.minX = Math.min(bbox.minX, base.extent.minX - 2 * radius);
+                bbox.maxX = Math.max(bbox.maxX, base.extent.maxX + 2 * radius);
+                bbox.minZ = Math.min(bbox.minZ, base.extent.minZ - 2 * radius);
+                bbox.maxZ = Math.max(bbox.maxZ, base.extent.maxZ + 2 * radius);
+            }
+            const points: Point[] = await this.findSpawns({ server: spawn.server, bbox });
+            // The spool may not have written it yet.
+            if (!points.some((p) => p.uid === spawn.uid)) points.push(spawn);
+
+            const cluster = clusterSpawns(points).find((c) => c.some((p) => p.uid === spawn.uid));
+            if (!cluster) return;
+
+            const merged = affected.filter((base) => overlaps(base.extent, describeBase("", spawn.server, cluster).extent));
+            const base = this.nameBase(spawn.server, cluster, merged, existing.map((b) => b.name), new Set());
+            await this.storage.saveBase(base);
+            for (const old of merged) {
+                if (old.name !== base.name) await this.storage.deleteBase(old.name);
+            }
+        });
+    }
+
+    private enqueue(update: () => Promise<void>): Promise<void> {
+        this.pending = this.pending.then(update).catch((error) => {
+            console.error("Error updating bases:", error);
+        });
+        return this.pending;
+    }
+
+    private async findSpawns(query: { server?: string, bbox?: Base["extent"] }): Promise<StoredSpawn[]> {
+        const spawns = new Map<number, StoredSpawn>();
+        for (const eventType of basePolicy.events) {
+            for (const spawn of await findAllSpawns(this.storage, { ...query, eventType })) {
+                spawns.set(spawn.id, spawn);
+            }
+        }
+        return [...spawns.values()];
+    }
+
+    /**
+     * Describes the cluster under the name of the largest previous base it overlaps that is not `taken` yet,
+     * or under the next free number of the server.
+     */
+    private nameBase(server: string, cluster: Point[], previous: Base[], names: string[], taken: Set<string>): Base {
+        const base = describeBase("", server, cluster);
+        const match = previous
+            .filter((p) => !taken.has(p.name) && overlaps(p.extent, base.extent))
+            .sort((a, b) => b.spawnCount - a.spawnCount)[0];
+        if (match) return { ...base, name: match.name };
+
+        const numbers = names
+            .map((name) => name.match(/-(\d+)$/)?.[1])
+            .map((n) => (n == null ? 0 : parseInt(n)));
+        return { ...base, name: `${server}-${Math.max(0, ...numbers) + 1}` };
+    }
+}
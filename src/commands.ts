@@ -0,0 +1,353 @@
+import {
+    AutocompleteInteraction,
+    ChatInputCommandInteraction,
+    EmbedBuilder,
+    MessageComponentInteraction,
+    ModalSubmitInteraction,
+    RESTPostAPIChatInputApplicationCommandsJSONBody,
+    SlashCommandBuilder,
+    SlashCommandSubcommandBuilder,
+} from "discord.js";
+import type Foundry from "./Foundry";
+import type { SpawnStorage } from "./storage";
+import type { Fence, StoredSpawn } from "./types";
+import { getWorldEvent, worldEvents, WorldEventName } from "./worldEvents";
+import { healthProblems } from "./health";
+import { getEmbedColor } from "./discord";
+import type LocationRegistry from "./locations";
+import type SubscriptionRegistry from "./subscriptions";
+import { describeFence, subscriptionPolicy } from "./subscriptions";
+
+/**
+ * A slash command, registered in every guild by `Discord.useCommands`.
+ */
+export interface SlashCommand {
+    data: RESTPostAPIChatInputApplicationCommandsJSONBody;
+    execute(interaction: ChatInputCommandInteraction): Promise<void>;
+    autocomplete?(interaction: AutocompleteInteraction): Promise<void>;
+}
+
+/**
+ * Handles the buttons, select menus and modals whose custom id starts with `prefix:`.
+ */
+export interface ComponentHandler {
+    prefix: string;
+    handle(interaction: MessageComponentInteraction | ModalSubmitInteraction): Promise<void>;
+}
+
+/**
+ * What the commands read from.
+ */
+export interface CommandContext {
+    storage: SpawnStorage;
+    foundries: Foundry[];
+    locations: LocationRegistry;
+    subscriptions: SubscriptionRegistry;
+    /** Spawns waiting in the write-behind spool. */
+    backlog?: () => number;
+}
+
+/** Discord caps messages at 2000 characters. */
+const maxMessage = 1900;
+const maxSpawns = 25;
+
+function spawnLine(spawn: StoredSpawn): string {
+    const title = getWorldEvent(spawn.eventType).title;
+    const error = spawn.errorRadius == null ? "" : ` ±${Math.round(spawn.errorRadius)}`;
+    const location = spawn.location == null ? "" : ` (${spawn.location})`;
+    return `<t:${Math.floor(spawn.observedAt / 1000)}:R> **${title}** on ${spawn.server}: ${Math.round(spawn.x)}, ${Math.round(spawn.z)}${error}${location}`;
+}
+
+/**
+ * Joins lines up to the message limit, the rest is summarised.
+ */
+function listMessage(lines: string[], empty: string): string {
+    if (lines.length === 0) return empty;
+    let message = "";
+    for (let i = 0; i < lines.length; i++) {
+        if (message.length + lines[i].length + 1 > maxMessage) {
+            return `${message}…and ${lines.length - i} more.`;
+        }
+        message += lines[i] + "\n";
+    }
+    return message;
+}
+
+function addFilters(sub: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+    return sub
+        .addStringOption((o) => o.setName("server").setDescription("Minecraft server").setRequired(false))
+        .addStringOption((o) => o
+            .setName("event")
+            .setDescription("Event type")
+            .setRequired(false)
+            .addChoices(...worldEvents.map((e) => ({ name: e.title, value: e.name }))));
+}
+
+function spawnsCommand(context: CommandContext): SlashCommand {
+    const data = new SlashCommandBuilder()
+        .setName("spawns")
+        .setDescription("Look up stored spawns")
+        .addSubcommand((sub) => addFilters(sub
+            .setName("recent")
+            .setDescription("The latest spawns")
+            .addIntegerOption((o) => o.setName("count").setDescription(`How many, at most ${maxSpawns}`).setMinValue(1).setMaxValue(maxSpawns))))
+        .addSubcommand((sub) => addFilters(sub
+            .setName("near")
+            .setDescription("Spawns around a coordinate, nearest first")
+            .addNumberOption((o) => o.setName("x").setDescription("X coordinate").setRequired(true))
+            .addNumberOption((o) => o.setName("z").setDescription("Z coordinate").setRequired(true))
+            .addNumberOption((o) => o.setName("radius").setDescription("Search radius in blocks").setRequired(true).setMinValue(1))));
+
+    return {
+        data: data.toJSON(),
+        async execute(interaction) {
+            const filters = {
+                server: interaction.options.getString("server") ?? undefined,
+                eventType: (interaction.options.getString("event") ?? undefined) as WorldEventName | undefined,
+            };
+            await interaction.deferReply();
+
+            if (interaction.options.getSubcommand() === "recent") {
+                const spawns = await context.storage.findSpawns({ ...filters, limit: interaction.options.getInteger("count") ?? 10 });
+                await interaction.editReply(listMessage(spawns.map(spawnLine), "No spawns stored yet."));
+                return;
+            }
+
+            const x = interaction.options.getNumber("x", true);
+            const z = interaction.options.getNumber("z", true);
+            const radius = interaction.options.getNumber("radius", true);
+            const query = { ...filters, near: { x, z, radius } };
+            const [spawns, total] = await Promise.all([
+                context.storage.nearestSpawns(x, z, maxSpawns, query),
+                context.storage.countSpawns(query),
+            ]);
+            const lines = spawns.map((s) => `${spawnLine(s)}, ${Math.round(Math.hypot(s.x - x, s.z - z))} blocks away`);
+            const header = `${total} spawns within ${radius} blocks of ${Math.round(x)}, ${Math.round(z)}:\n`;
+            await interaction.editReply(total === 0 ? `No spawns within ${radius} blocks of ${Math.round(x)}, ${Math.round(z)}.` : header + listMessage(lines, ""));
+        },
+    };
+}
+
+function baseCommand(context: CommandContext): SlashCommand {
+    const data = new SlashCommandBuilder()
+        .setName("base")
+        .setDescription("Show a detected base")
+        .addStringOption((o) => o.setName("name").setDescription("Base name").setRequired(true).setAutocomplete(true));
+
+    return {
+        data: data.toJSON(),
+        async execute(interaction) {
+            const name = interaction.options.getString("name", true);
+            const base = await context.storage.getBase(name);
+            if (!base) {
+                await interaction.reply({ content: `There is no base called ${name}.`, ephemeral: true });
+                return;
+            }
+
+            const busiest = base.activity.hours
+                .map((count, hour) => ({ count, hour }))
+                .filter((h) => h.count > 0)
+                .sort((a, b) => b.count - a.count)
+                .slice(0, 3)
+                .map((h) => `${String(h.hour).padStart(2, "0")}:00 (${h.count})`);
+            const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+            const { minX, maxX, minZ, maxZ } = base.extent;
+            const embed = new EmbedBuilder()
+                .setColor(getEmbedColor("red"))
+                .setTitle(base.name)
+                .addFields(
+                    { name: "Centroid", value: `🅧: ${Math.round(base.centroid.x)} | 🅩: ${Math.round(base.centroid.z)}`, inline: false },
+                    { name: "Extent", value: `${Math.round(minX)}..${Math.round(maxX)}, ${Math.round(minZ)}..${Math.round(maxZ)}`, inline: false },
+                    { name: "Server", value: base.server, inline: true },
+                    { name: "Spawns", value: String(base.spawnCount), inline: true },
+                    { name: "Seen", value: `<t:${Math.floor(base.firstSeen / 1000)}:d> to <t:${Math.floor(base.lastSeen / 1000)}:R>`, inline: false },
+                    { name: "Busiest hours (UTC)", value: busiest.join(", ") || "-", inline: false },
+                    { name: "Weekdays", value: base.activity.weekdays.map((n, d) => `${weekdays[d]} ${n}`).join(" | "), inline: false },
+                );
+            await interaction.reply({ embeds: [embed] });
+        },
+        async autocomplete(interaction) {
+            const typed = interaction.options.getFocused().toLowerCase();
+            const bases = await context.storage.listBases();
+            await interaction.respond(bases
+                .filter((b) => b.name.toLowerCase().includes(typed))
+                .slice(0, 25)
+                .map((b) => ({ name: `${b.name} (${b.spawnCount} spawns)`, value: b.name })));
+        },
+    };
+}
+
+function fleetCommand(context: CommandContext): SlashCommand {
+    const data = new SlashCommandBuilder()
+        .setName("fleet")
+        .setDescription("Listener fleet")
+        .addSubcommand((sub) => sub
+            .setName("status")
+            .setDescription("Health of every listener")
+            .addStringOption((o) => o.setName("server").setDescription("Minecraft server").setRequired(false)));
+
+    return {
+        data: data.toJSON(),
+        async execute(interaction) {
+            const server = interaction.options.getString("server");
+            const foundries = context.foundries.filter((f) => server == null || f.server.name === server);
+            if (foundries.length === 0) {
+                await interaction.reply({ content: `Not watching a server called ${server}.`, ephemeral: true });
+                return;
+            }
+
+            const now = Date.now();
+            const lines: string[] = [];
+            for (const foundry of foundries) {
+                const health = foundry.health();
+                const healthy = health.filter((h) => healthProblems(h, now).length === 0).length;
+                lines.push(`**${foundry.server.name}**: ${healthy}/${health.length} listeners healthy`);
+                for (const h of health) {
+                    const problems = healthProblems(h, now);
+                    const ping = h.ping == null ? "" : `, ${h.ping}ms`;
+                    lines.push(`${problems.length === 0 ? "🟢" : "🔴"} (${h.id}) ${h.username}: ${problems.length === 0 ? h.status : problems.join(", ")}${ping}`);
+                }
+            }
+            if (context.backlog) {
+                lines.push(`Spool backlog: ${context.backlog()} spawns`);
+            }
+            await interaction.reply(listMessage(lines, "No listeners."));
+        },
+    };
+}
+
+/**
+ * `x,z x,z x,z`, corners separated by spaces or semicolons. Null when it is not a polygon.
+ */
+function parseCorners(text: string): { x: number, z: number }[] | null {
+    const corners = text.split(/[;\s]+/).filter((c) => c.length > 0).map((c) => c.split(",").map(Number));
+    if (corners.length < 3 || corners.length > subscriptionPolicy.maxCorners) return null;
+    if (corners.some((c) => c.length !== 2 || !c.every(Number.isFinite))) return null;
+    return corners.map(([x, z]) => ({ x, z }));
+}
+
+function addAlertOptions(sub: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+    return addFilters(sub
+        .addStringOption((o) => o.setName("name").setDescription("What to call the alert").setRequired(true).setMaxLength(64)))
+        .addStringOption((o) => o
+            .setName("delivery")
+            .setDescription("Where to be alerted, a direct message by default")
+            .setRequired(false)
+            .addChoices({ name: "Direct message", value: "dm" }, { name: "Ping me in this channel", value: "channel" }));
+}
+
+function alertsCommand(context: CommandContext): SlashCommand {
+    const data = new SlashCommandBuilder()
+        .setName("alerts")
+        .setDescription("Get alerted about spawns in an area")
+        .addSubcommand((sub) => addAlertOptions(sub
+            .setName("circle")
+            .setDescription("Alert on spawns within a radius of a coordinate")
+            .addNumberOption((o) => o.setName("x").setDescription("X coordinate").setRequired(true))
+            .addNumberOption((o) => o.setName("z").setDescription("Z coordinate").setRequired(true))
+            .addNumberOption((o) => o.setName("radius").setDescription("Radius in blocks").setRequired(true).setMinValue(1))))
+        .addSubcommand((sub) => addAlertOptions(sub
+            .setName("polygon")
+            .setDescription("Alert on spawns inside a polygon")
+            .addStringOption((o) => o.setName("corners").setDescription(`Corners as "x,z x,z x,z", 3 to ${subscriptionPolicy.maxCorners}`).setRequired(true))))
+        .addSubcommand((sub) => addAlertOptions(sub
+            .setName("location")
+            .setDescription("Alert on spawns at a known location")
+            .addStringOption((o) => o.setName("location").setDescription("Known location").setRequired(true).setAutocomplete(true))))
+        .addSubcommand((sub) => sub
+            .setName("list")
+            .setDescription("Your alerts"))
+        .addSubcommand((sub) => sub
+            .setName("remove")
+            .setDescription("Delete one of your alerts")
+            .addIntegerOption((o) => o.setName("id").setDescription("Alert id, see /alerts list").setRequired(true).setAutocomplete(true)));
+
+    return {
+        data: data.toJSON(),
+        async execute(interaction) {
+            const owner = interaction.user.id;
+            const subcommand = interaction.options.getSubcommand();
+
+            if (subcommand === "list") {
+                const lines = context.subscriptions.list(owner).map((s) => {
+                    const events = s.eventTypes.length === 0 ? "all events" : s.eventTypes.map((e) => getWorldEvent(e).title).join(", ");
+                    const where = s.channel == null ? "direct message" : `<#${s.channel}>`;
+                    return `**#${s.id} ${s.name}**: ${describeFence(s.fence)}, ${events} on ${s.server ?? "every server"}, by ${where}`;
+                });
+                await interaction.reply({ content: listMessage(lines, "You have no alerts, add one with /alerts circle, polygon or location."), ephemeral: true });
+                return;
+            }
+
+            if (subcommand === "remove") {
+                const id = interaction.options.getInteger("id", true);
+                const removed = await context.subscriptions.remove(owner, id);
+                await interaction.reply({ content: removed ? `Deleted alert #${id}.` : `You have no alert #${id}.`, ephemeral: true });
+                return;
+            }
+
+            if (context.subscriptions.list(owner).length >= subscriptionPolicy.maxPerMember) {
+                await interaction.reply({ content: `You already have ${subscriptionPolicy.maxPerMember} alerts, remove one first.`, ephemeral: true });
+                return;
+            }
+
+            let fence: Fence;
+            if (subcommand === "circle") {
+                fence = {
+                    kind: "circle",
+                    x: interaction.options.getNumber("x", true),
+                    z: interaction.options.getNumber("z", true),
+                    radius: interaction.options.getNumber("radius", true),
+                };
+            } else if (subcommand === "polygon") {
+                const points = parseCorners(interaction.options.getString("corners", true));
+                if (!points) {
+                    await interaction.reply({ content: `Corners should look like "x,z x,z x,z", 3 to ${subscriptionPolicy.maxCorners} of them.`, ephemeral: true });
+                    return;
+                }
+                fence = { kind: "polygon", points };
+            } else {
+                const name = interaction.options.getString("location", true);
+                if (!context.locations.get(name)) {
+                    await interaction.reply({ content: `There is no known location called ${name}.`, ephemeral: true });
+                    return;
+                }
+                fence = { kind: "location", name };
+            }
+
+            const event = interaction.options.getString("event") as WorldEventName | null;
+            const subscription = await context.subscriptions.add({
+                owner,
+                name: interaction.options.getString("name", true),
+                channel: interaction.options.getString("delivery") === "channel" ? interaction.channelId : null,
+                server: interaction.options.getString("server"),
+                eventTypes: event == null ? [] : [event],
+                fence,
+                createdAt: Date.now(),
+            });
+            await interaction.reply({ content: `Added alert #${subscription.id} ${subscription.name}: ${describeFence(fence)}.`, ephemeral: true });
+        },
+        async autocomplete(interaction) {
+            const focused = interaction.options.getFocused(true);
+            const typed = String(focused.value).toLowerCase();
+            if (focused.name === "id") {
+                await interaction.respond(context.subscriptions.list(interaction.user.id)
+                    .filter((s) => `${s.id} ${s.name}`.toLowerCase().includes(typed))
+                    .slice(0, 25)
+                    .map((s) => ({ name: `#${s.id} ${s.name}`, value: s.id })));
+                return;
+            }
+            await interaction.respond(context.locations.list()
+                .filter((l) => l.name.toLowerCase().includes(typed))
+                .slice(0, 25)
+                .map((l) => ({ name: l.name, value: l.name })));
+        },
+    };
+}
+
+/**
+ * Every slash command, sorted by name so registration is the same on every start.
+ */
+export function createCommands(context: CommandContext): SlashCommand[] {
+    return [spawnsCommand(context), baseCommand(context), fleetCommand(context), alertsCommand(context)]
+        .sort((a, b) => a.data.name.localeCompare(b.data.name));
+}
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadServers } from "./config";
+
+function withFleet(fleet: object, run: () => void): void {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "fleet-")), "fleet.json");
+    fs.writeFileSync(file, JSON.stringify(fleet));
+    const previous = process.env.fleet;
+    process.env.fleet = file;
+    try {
+        run();
+    } finally {
+        if (previous == null) delete process.env.fleet;
+        else process.env.fleet = previous;
+        fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+}
+
+const accounts = [{ id: 1, username: "alpha" }, { id: 2, username: "beta" }];
+
+test("loads a valid fleet", () => {
+    withFleet({ servers: [{ name: "main", host: "localhost", accounts }] }, () => {
+        const [server] = loadServers();
+        assert.equal(server.name, "main");
+        assert.deepEqual(server.accounts.map((a) => a.id), [1, 2]);
+    });
+});
+
+test("rejects server names longer than the storage columns", () => {
+    withFleet({ servers: [{ name: "x".repeat(65), host: "localhost", accounts }] }, () => {
+        assert.throws(() => loadServers(), /1 to 64 characters/);
+    });
+});
+
+test("rejects account ids that are not integers", () => {
+    for (const id of ["1", 1.5]) {
+        withFleet({ servers: [{ name: "main", host: "localhost", accounts: [{ id, username: "alpha" }] }] }, () => {
+            assert.throws(() => loadServers(), /needs an integer id/);
+        });
+    }
+});
+
+test("rejects duplicate account ids", () => {
+    withFleet({ servers: [{ name: "main", host: "localhost", accounts: [{ id: 3, username: "alpha" }, { id: 3, username: "beta" }] }] }, () => {
+        assert.throws(() => loadServers(), /Duplicate fleet account id 3/);
+    });
+});
@@ -0,0 +1,179 @@
+import fs from "fs";
+import "dotenv/config";
+import type { KnownLocation, ListenerAccount, ServerConfig } from "./types";
+import { parseSolverChain } from "./solver";
+
+const defaultViewDistance = process.env.view_distance == null ? 8 : parseInt(process.env.view_distance);
+const defaultAuth = process.env.auth ?? "offline";
+
+/** Server names and usernames are stored in `VARCHAR(64)` columns, longer ones would fail every insert. */
+export const maxNameLength = 64;
+
+/**
+ * Where Microsoft tokens are cached, one cache per account.
+ */
+export const profilesDir = process.env.profiles_dir ?? "./profiles";
+
+/**
+ * A server configured purely through the env vars (`host`, `port`, `version`, `mc_server`, `channel`,
+ * `correlation_window`, `solver`), these are also the defaults for every server of a fleet file.
+ */
+export function defaultServerConfig(accounts: ListenerAccount[]): ServerConfig {
+    return {
+        name: process.env.mc_server ?? process.env.host ?? "default",
+        host: process.env.host ?? "localhost",
+        port: process.env.port == null ? 25565 : Number(process.env.port),
+        version: process.env.version,
+        channel: process.env.channel ?? "",
+        correlationWindow: process.env.correlation_window == null ? 2000 : parseInt(process.env.correlation_window),
+        solvers: parseSolverChain(process.env.solver ?? "residual,linear"),
+        accounts,
+    };
+}
+
+/**
+ * Loads every server the process should watch.
+ *
+ * When `fleet` points at a JSON file it is used, either as `{ "servers": [{ "name", "host", "port", "version",
+ * "channel", "correlationWindow", "solver", "accounts" }] }` or, for a single server configured through the env
+ * vars, as `{ "accounts": [...] }`. Accounts are `{ "id", "username", "auth", "target", "viewDistance" }`.
+ * Without a fleet file a single server is watched by the comma separated `accounts`, capped at `acc_amt`.
+ */
+export function loadServers(): ServerConfig[] {
+    let servers: ServerConfig[];
+    if (process.env.fleet == null) {
+        servers = [defaultServerConfig(fleetFromEnv())];
+    } else {
+        const file = process.env.fleet;
+        const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+        servers = Array.isArray(raw.servers)
+            ? raw.servers.map((entry: any, i: number) => serverFromEntry(entry, `server #${i} in ${file}`))
+            : [defaultServerConfig(fleetFromEntry(raw, file))];
+    }
+
+    if (servers.length === 0) {
+        throw new Error("No servers configured.");
+    }
+
+    const names = new Set<string>();
+    for (const server of servers) {
+        if (server.name.length === 0 || server.name.length > maxNameLength) {
+            throw new Error(`Server name "${server.name}" must be 1 to ${maxNameLength} characters.`);
+        }
+        if (names.has(server.name)) {
+            throw new Error(`Duplicate server name ${server.name}.`);
+        }
+        names.add(server.name);
+        validateFleet(server);
+    }
+
+    return servers;
+}
+
+function validateFleet(server: ServerConfig): void {
+    if (server.accounts.length === 0) {
+        throw new Error(`The fleet of ${server.name} has no accounts, set either \`fleet\` or \`accounts\`.`);
+    }
+
+    const ids = new Set<number>();
+    for (const account of server.accounts) {
+        if (!Number.isInteger(account.id)) {
+            throw new Error(`Fleet account ${JSON.stringify(account.id)} on ${server.name} needs an integer id.`);
+        }
+        if (ids.has(account.id)) {
+            throw new Error(`Duplicate fleet account id ${account.id} on ${server.name}.`);
+        }
+        ids.add(account.id);
+
+        if (account.username.length > maxNameLength) {
+            throw new Error(`Fleet account ${account.id} on ${server.name} has a username over ${maxNameLength} characters.`);
+        }
+
+        if (account.auth !== "offline" && account.auth !== "microsoft") {
+            throw new Error(`Fleet account ${account.id} on ${server.name} has unknown auth "${account.auth}", expected offline or microsoft.`);
+        }
+    }
+}
+
+function serverFromEntry(entry: any, where: string): ServerConfig {
+    if (typeof entry.name !== "string" || typeof entry.host !== "string") {
+        throw new Error(`${where} needs a name and a host.`);
+    }
+
+    const defaults = defaultServerConfig(fleetFromEntry(entry, where));
+    return {
+        ...defaults,
+        name: entry.name,
+        host: entry.host,
+        port: entry.port ?? 25565,
+        version: entry.version ?? defaults.version,
+        channel: entry.channel ?? defaults.channel,
+        correlationWindow: entry.correlationWindow ?? defaults.correlationWindow,
+        solvers: entry.solver == null ? defaults.solvers : parseSolverChain(entry.solver),
+    };
+}
+
+function fleetFromEnv(): ListenerAccount[] {
+    const users = (process.env.accounts ?? "").split(",").map((u) => u.trim()).filter((u) => u.length > 0);
+    const userAmt = process.env.acc_amt == null ? users.length : parseInt(process.env.acc_amt);
+
+    return users.slice(0, userAmt).map((username, i) => ({
+        id: i + 1,
+        username,
+        auth: defaultAuth as ListenerAccount["auth"],
+        viewDistance: defaultViewDistance,
+    }));
+}
+
+function fleetFromEntry(entry: any, where: string): ListenerAccount[] {
+    if (!Array.isArray(entry.accounts)) {
+        throw new Error(`${where} has no "accounts" list.`);
+    }
+
+    return entry.accounts.map((account: any, i: number): ListenerAccount => {
+        if (typeof account.username !== "string") {
+            throw new Error(`Fleet account #${i} in ${where} has no username.`);
+        }
+        return {
+            id: account.id ?? i + 1,
+            username: account.username,
+            auth: account.auth ?? defaultAuth,
+            target: account.target,
+            viewDistance: account.viewDistance ?? defaultViewDistance,
+        };
+    });
+}
+
+/**
+ * Known locations from the JSON file `locations` points at, either a list or `{ "locations": [...] }` of
+ * `{ "name", "server", "x", "z", "radius", "tags" }`. Empty without the env var.
+ */
+export function loadLocations(): KnownLocation[] {
+    const file = process.env.locations;
+    if (file == null) return [];
+
+    const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+    const entries: any[] = Array.isArray(raw) ? raw : raw.locations;
+    if (!Array.isArray(entries)) {
+        throw new Error(`${file} has no "locations" list.`);
+    }
+
+    const names = new Set<string>();
+    return entries.map((entry, i): KnownLocation => {
+        if (typeof entry.name !== "string" || typeof entry.x !== "number" || typeof entry.z !== "number" || typeof entry.radius !== "number") {
+            throw new Error(`Location #${i} in ${file} needs a name, x, z and radius.`);
+        }
+        if (names.has(entry.name)) {
+            throw new Error(`Duplicate location name ${entry.name} in ${file}.`);
+        }
+        names.add(entry.name);
+        return {
+            name: entry.name,
+            server: entry.server ?? null,
+            x: entry.x,
+            z: entry.z,
+            radius: entry.radius,
+            tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+        };
+    });
+}
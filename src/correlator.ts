@@ -0,0 +1,96 @@
+import EventEmitter from "events";
+import type { Soundwave } from "./types";
+import type { WorldEventName } from "./worldEvents";
+
+/**
+ * A group of soundwaves heard within one correlation window, assumed to belong to the same event.
+ */
+export interface CorrelatedEvent {
+    event: WorldEventName;
+    /** Soundwaves keyed by listener account id. */
+    waves: Map<number, Soundwave>;
+    openedAt: number;
+    closedAt: number;
+    /** Whether every expected listener reported before the group closed. */
+    complete: boolean;
+}
+
+interface OpenGroup {
+    waves: Map<number, Soundwave>;
+    openedAt: number;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Groups soundwaves from several listeners into events by their receive time.
+ *
+ * Every event type has its own group. A group is opened by the first soundwave and closed when either
+ *  - every expected listener has reported,
+ *  - the window has elapsed (we go with whatever arrived), or
+ *  - a listener that is already part of the group reports again, which can only be another event.
+ * A closed group is never reopened, so two events are never mixed into one solve.
+ */
+class Correlator extends EventEmitter {
+    private groups = new Map<WorldEventName, OpenGroup>();
+
+    constructor(private expected: number, private windowMs: number) {
+        super();
+    }
+
+    public push(acc: number, wave: Soundwave): void {
+        let group = this.groups.get(wave.event);
+        if (group) {
+            const late = wave.receivedAt - group.openedAt > this.windowMs;
+            if (late || group.waves.has(acc)) {
+                this.close(wave.event);
+                group = undefined;
+            }
+        }
+
+        if (!group) {
+            group = {
+                waves: new Map(),
+                openedAt: wave.receivedAt,
+                timer: setTimeout(() => this.close(wave.event), this.windowMs),
+            };
+            this.groups.set(wave.event, group);
+        }
+
+        group.waves.set(acc, wave);
+        if (group.waves.size >= this.expected) this.close(wave.event);
+    }
+
+    /**
+     * Closes every open group.
+     */
+    public closeAll(): void {
+        for (const event of [...this.groups.keys()]) {
+            this.close(event);
+        }
+    }
+
+    /**
+     * Closes the open group of the given event type (if any) and emits it.
+     */
+    public close(event: WorldEventName): void {
+        const group = this.groups.get(event);
+        if (!group) return;
+        this.groups.delete(event);
+        clearTimeout(group.timer);
+
+        this.emit("event", {
+            event,
+            waves: group.waves,
+            openedAt: group.openedAt,
+            closedAt: Date.now(),
+            complete: group.waves.size >= this.expected,
+        });
+    }
+}
+
+declare interface Correlator {
+    emit(event: "event", correlated: CorrelatedEvent): boolean;
+    on(event: "event", listener: (correlated: CorrelatedEvent) => void): this;
+}
+
+export default Correlator;
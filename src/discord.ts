@@ -1,6 +1,22 @@
-import { Client, GatewayIntentBits, TextChannel, EmbedBuilder } from 'discord.js';
+import { Client, GatewayIntentBits, TextChannel, EmbedBuilder, Guild, Interaction, AttachmentBuilder, ChatInputCommandInteraction, MessageComponentInteraction, ModalSubmitInteraction } from 'discord.js';
+import type { ComponentHandler, SlashCommand } from './commands';
+import { feedbackComponents } from './feedback';
+import type { EmbedDetails } from './types';
+
+export function getEmbedColor(color: string): number {
+    switch (color.toLowerCase()) {
+        case 'red': return 0xFF0000;
+        case 'green': return 0x00FF00;
+        case 'yellow': return 0xFFFF00;
+        case 'purple': return 0x8A2BE2;
+        default: return 0x00FFFF; // Default to cyan
+    }
+}
+
 export default class Discord {
     private client: Client;
+    private commands: SlashCommand[] = [];
+    private components: ComponentHandler[] = [];
    // private storageHandler: StorageHandler = new StorageHandler();
 
     constructor() {
@@ -50,53 +66,130 @@ export default class Discord {
         }
     }
 
+    // Sends a direct message, members who do not accept them from the server are skipped
+    public async sendDirectMessage(userId: string, message: string) {
+        try {
+            const user = await this.client.users.fetch(userId);
+            await user.send(message);
+        } catch (error) {
+            console.error(`Failed to send a direct message to ${userId}:`, error);
+        }
+    }
+
     public async sendCoordinatesEmbed(
         channelId: string,
         color: string,
-        coordinates: { x: number; y: number; z: number },
+        coordinates: { x: number; y?: number; z: number },
         title: string,
         serverName: string,
-        description?: string,
+        details: EmbedDetails = {},
     ) {
         try {
             const channel = await this.client.channels.fetch(channelId);
             if (channel?.isTextBased()) {
+                const y = coordinates.y == null ? '' : ` | 🅨: ${Math.round(coordinates.y)}`;
                 const embed = new EmbedBuilder()
-                    .setColor(this.getEmbedColor(color))
+                    .setColor(getEmbedColor(color))
                     .setTitle(title)
-                    .setDescription(description || '')
+                    .setDescription(details.description || '')
                     .addFields(
-                        { name: 'Coordinates', value: `🅧: ${Math.round(coordinates.x)} | 🅨: ${Math.round(coordinates.y)} | 🅩: ${Math.round(coordinates.z)}`, inline: false },
+                        { name: 'Coordinates', value: `🅧: ${Math.round(coordinates.x)}${y} | 🅩: ${Math.round(coordinates.z)}`, inline: true },
+                        { name: 'Nether', value: `🅧: ${Math.floor(coordinates.x / 8)} | 🅩: ${Math.floor(coordinates.z / 8)}`, inline: true },
+                        ...(details.fields ?? []),
                         { name: 'Server', value: serverName, inline: false },
                         { name: 'Timestamp', value: `<t:${Math.floor(Date.now() / 1000)}:F>`, inline: false }
                     )
                     .setFooter({ text: `Coordinates display` });
-                await (channel as TextChannel).send({ embeds: [embed] });
+                // Attached straight from memory, the embed refers to it by file name
+                const files = details.image ? [new AttachmentBuilder(details.image, { name: 'graph.png' })] : [];
+                if (details.image) embed.setImage('attachment://graph.png');
+                const components = details.spawnUid ? feedbackComponents(details.spawnUid) : [];
+                await (channel as TextChannel).send({ embeds: [embed], files, components });
             }
         } catch (error) {
             console.error(`Failed to send embed to channel ${channelId}:`, error);
         }
     }
 
+    // Sets the slash commands, they are registered in every guild once the bot is ready
+    public useCommands(commands: SlashCommand[]) {
+        this.commands = commands;
+    }
+
+    // Sets the handlers of buttons, select menus and modals, picked by the prefix of their custom id
+    public useComponents(components: ComponentHandler[]) {
+        this.components = components;
+    }
+
+    // Replaces the guild's commands with ours, so commands we dropped disappear as well.
+    // Only the guilds listed in `guilds` get them when it is set.
+    private async registerCommands(guild: Guild) {
+        const allowed = process.env.guilds?.split(',').map((id) => id.trim());
+        if (allowed && !allowed.includes(guild.id)) return;
+
+        try {
+            await guild.commands.set(this.commands.map((command) => command.data));
+            console.log(`Registered ${this.commands.length} commands in ${guild.name}`);
+        } catch (error) {
+            console.error(`Failed to register commands in ${guild.name}:`, error);
+        }
+    }
+
+    private async handleInteraction(interaction: Interaction) {
+        if (interaction.isAutocomplete()) {
+            const command = this.commands.find((c) => c.data.name === interaction.commandName);
+            await command?.autocomplete?.(interaction).catch((error) => {
+                console.error(`Autocomplete of /${interaction.commandName} failed:`, error);
+            });
+            return;
+        }
+        if (interaction.isMessageComponent() || interaction.isModalSubmit()) {
+            const handler = this.components.find((h) => interaction.customId.startsWith(`${h.prefix}:`));
+            if (!handler) return;
+            try {
+                await handler.handle(interaction);
+            } catch (error) {
+                console.error(`Interaction ${interaction.customId} failed:`, error);
+                await this.replyWithError(interaction, 'Something went wrong, try again later.');
+            }
+            return;
+        }
+        if (!interaction.isChatInputCommand()) return;
+
+        const command = this.commands.find((c) => c.data.name === interaction.commandName);
+        if (!command) return;
+        try {
+            await command.execute(interaction);
+        } catch (error) {
+            console.error(`Command /${interaction.commandName} failed:`, error);
+            await this.replyWithError(interaction, 'Something went wrong running that command.');
+        }
+    }
+
+    private async replyWithError(interaction: ChatInputCommandInteraction | MessageComponentInteraction | ModalSubmitInteraction, content: string) {
+        if (interaction.deferred || interaction.replied) {
+            await interaction.editReply(content).catch(() => undefined);
+        } else {
+            await interaction.reply({ content, ephemeral: true }).catch(() => undefined);
+        }
+    }
+
     // Sets up event listeners for the bot
     private setupEventListeners() {
-        this.client.on('ready', () => {
+        this.client.on('ready', async () => {
             console.log(`Logged in as ${this.client.user?.tag}`);
+            for (const guild of this.client.guilds.cache.values()) {
+                await this.registerCommands(guild);
+            }
         });
 
+        this.client.on('guildCreate', (guild) => this.registerCommands(guild));
+        this.client.on('interactionCreate', (interaction) => this.handleInteraction(interaction));
+
         this.client.on('error', (error) => {
             console.error('Client error:', error);
         });
 
     }
 
-    private getEmbedColor(color: string): number {
-        switch (color.toLowerCase()) {
-            case 'red': return 0xFF0000;
-            case 'green': return 0x00FF00;
-            case 'yellow': return 0xFFFF00;
-            default: return 0x00FFFF; // Default to cyan
-        }
-    }
-
 }
\ No newline at end of file
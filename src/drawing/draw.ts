@@ -1,12 +1,10 @@
 import { createCanvas } from "canvas";
 import * as fs from "fs";
-import { drawErrorRegionPolygon } from "./drawPolygon";
-import { Point, buildErrorRegion } from "./polygonUtils";
-import { generateExplosionLocation } from "../cracking/build_test_utils";
-import { generateGridObservationsForN } from "../cracking/generators";
-import { getCandidateOffsetsForObservation, triangulateEventLinear } from "../cracking/triangulation";
-import { buildConePolygon, computeOverlappingRegion } from "./test1";
+import { Point } from "./polygonUtils";
+import { getCandidateOffsetsForObservation } from "../cracking/triangulation";
+import { computeOverlappingRegion } from "./test1";
 import { Position } from "martinez-polygon-clipping";
+import type { SpawnRecord } from "../types";
 
 /**
  * The basic ray data: each has an origin (playerX, playerZ) and a point on the ray (relX, relZ).
@@ -179,6 +177,7 @@ function getRayInBoundingBox(
 /**
  * 4) Draw a single extended ray (culled to bounding box).
  *    Also optionally draws the origin (blue dot) and endpoint (red dot).
+ *    Returns where the ray enters the box, null when it misses it.
  */
 function drawRay(
   ctx: CanvasRenderingContext2D,
@@ -224,9 +223,10 @@ function drawRay(
     ctx.arc(originCanvas.x, originCanvas.y, 4, 0, 2 * Math.PI);
     ctx.fill();
   }
+  return segment && toCanvasCoords(segment.startX, segment.startZ, bbox, canvasWidth, canvasHeight, padding);
 }
 
-interface GraphOptions {
+export interface GraphOptions {
   canvasWidth?: number;
   canvasHeight?: number;
   padding?: number;
@@ -235,18 +235,57 @@ interface GraphOptions {
   drawTargetLines?: boolean;
   drawErrorRegion?: boolean;
   scale?: number;
+  /** Feasible polygon to draw as the error region instead of intersecting the cones of the inputs. */
+  region?: Point[];
+  /** Area to draw, defaults to everything from the ray origins to the estimate. */
+  bbox?: BoundingBox;
+  /** Drawn where each ray enters the picture, e.g. the listener names. */
+  labels?: string[];
+  /** Draws a scale bar and the estimated coordinates. */
+  drawLegend?: boolean;
 }
 
 /**
- * 5) Main function to generate the graph.
+ * A square box around the estimate and its error region, so the region is readable instead of a dot
+ * between listeners that are thousands of blocks apart. The rays are clipped to it.
+ */
+export function computeFocusBoundingBox(data: IntersectionData, region: Point[] = [], minSize = 64): BoundingBox {
+  const { estimatedX, estimatedZ, errorRadius } = data;
+  let minX = estimatedX - errorRadius,
+    maxX = estimatedX + errorRadius;
+  let minZ = estimatedZ - errorRadius,
+    maxZ = estimatedZ + errorRadius;
+  for (const p of region) {
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minZ = Math.min(minZ, p.z);
+    maxZ = Math.max(maxZ, p.z);
+  }
+
+  // Twice the size of what has to be visible, so the rays can be told apart around it.
+  const size = Math.max(maxX - minX, maxZ - minZ, minSize / 2) * 2;
+  const centerX = (minX + maxX) / 2;
+  const centerZ = (minZ + maxZ) / 2;
+  return { minX: centerX - size / 2, maxX: centerX + size / 2, minZ: centerZ - size / 2, maxZ: centerZ + size / 2 };
+}
+
+/** Rounds a scale bar length down to 1, 2 or 5 times a power of ten. */
+function niceLength(length: number): number {
+  const power = Math.pow(10, Math.floor(Math.log10(length)));
+  const step = [5, 2, 1].find((s) => s * power <= length) ?? 1;
+  return step * power;
+}
+
+/**
+ * 5) Main function to render the graph.
  *    - Creates the canvas
  *    - Computes bounding box
  *    - Draws all rays, intersection points, etc.
- *    - Saves the final image
+ *    - Returns the image as a PNG
  */
-export function generateGraph(inputs: RayInput[], data: IntersectionData, outputFile: string, options: GraphOptions = {}) {
+export function renderGraph(inputs: RayInput[], data: IntersectionData, options: GraphOptions = {}): Buffer {
   // 1) Compute bounding box
-  const bbox = computeBoundingBox(inputs, data, options.scale);
+  const bbox = options.bbox ?? computeBoundingBox(inputs, data, options.scale);
 
   // 2) Create canvas
   const canvasWidth = options.canvasWidth || 4000;
@@ -297,7 +336,15 @@ export function generateGraph(inputs: RayInput[], data: IntersectionData, output
     }
 
     if (drawTargetLines) {
-      drawRay(ctx as any, inputs[i], data.offsets[i], bbox, canvasWidth, canvasHeight, padding, true, "red");
+      const entry = drawRay(ctx as any, inputs[i], data.offsets[i], bbox, canvasWidth, canvasHeight, padding, true, "red");
+      const label = options.labels?.[i];
+      if (entry && label) {
+        ctx.fillStyle = "black";
+        ctx.font = "16px sans-serif";
+        const x = Math.min(Math.max(entry.x, padding), canvasWidth - padding - ctx.measureText(label).width);
+        const y = Math.min(Math.max(entry.y, padding + 16), canvasHeight - padding);
+        ctx.fillText(label, x, y);
+      }
     }
   }
 
@@ -339,7 +386,22 @@ export function generateGraph(inputs: RayInput[], data: IntersectionData, output
     ctx.stroke();
   }
 
-  if (options.drawErrorRegion) {
+  if (options.region && options.region.length >= 3) {
+    // 9) Draw the given feasible polygon
+    const first = toCanvasCoords(options.region[0].x, options.region[0].z, bbox, canvasWidth, canvasHeight, padding);
+    ctx.beginPath();
+    ctx.moveTo(first.x, first.y);
+    for (const p of options.region.slice(1)) {
+      const pt = toCanvasCoords(p.x, p.z, bbox, canvasWidth, canvasHeight, padding);
+      ctx.lineTo(pt.x, pt.y);
+    }
+    ctx.closePath();
+    ctx.fillStyle = "rgba(255, 150, 0, 0.3)";
+    ctx.fill();
+    ctx.strokeStyle = "rgba(255, 150, 0, 1)";
+    ctx.lineWidth = 3;
+    ctx.stroke();
+  } else if (options.drawErrorRegion) {
     // 9) Draw the error region
     const polygon = computeOverlappingRegion(inputs, bbox);
     if (polygon != null) {
@@ -392,8 +454,59 @@ export function generateGraph(inputs: RayInput[], data: IntersectionData, output
     }
   }
 
-  // 10) Save the image
-  const buffer = canvas.toBuffer("image/png");
-  fs.writeFileSync(outputFile, buffer);
+  if (options.drawLegend) {
+    // 10) Scale bar in the bottom left, coordinates of the estimate in the top left
+    const blocks = niceLength((bbox.maxX - bbox.minX) / 4);
+    const length = blocks * scaleX;
+    const y = canvasHeight - padding / 2;
+    ctx.strokeStyle = "black";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(padding, y);
+    ctx.lineTo(padding + length, y);
+    ctx.stroke();
+    ctx.fillStyle = "black";
+    ctx.font = "16px sans-serif";
+    ctx.fillText(`${blocks} blocks`, padding + length + 10, y + 5);
+    ctx.fillText(`${Math.round(estimatedX)}, ${Math.round(estimatedZ)} ±${errorRadius.toFixed(1)}`, padding, padding / 2 + 5);
+  }
+
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * Renders the graph and saves it to `outputFile`.
+ */
+export function generateGraph(inputs: RayInput[], data: IntersectionData, outputFile: string, options: GraphOptions = {}) {
+  fs.writeFileSync(outputFile, renderGraph(inputs, data, options));
   console.log(`Graph image saved as ${outputFile}`);
 }
+
+/**
+ * The picture attached to spawn announcements: the ray of every listener, the feasible polygon, the estimate
+ * and its error circle, zoomed in on the region.
+ */
+export function renderSpawnGraph(spawn: SpawnRecord, size = 800): Buffer {
+  const inputs: RayInput[] = spawn.observations.map((o) => ({
+    playerX: o.bPosition.x,
+    playerZ: o.bPosition.z,
+    relX: o.wPosition.x,
+    relZ: o.wPosition.z,
+  }));
+  const data: IntersectionData = {
+    estimatedX: spawn.x,
+    estimatedZ: spawn.z,
+    errorRadius: spawn.errorRadius,
+    offsets: spawn.observations.map((o) => o.offset ?? { dx: 0, dz: 0 }),
+  };
+  return renderGraph(inputs, data, {
+    canvasWidth: size,
+    canvasHeight: size,
+    padding: 40,
+    bbox: computeFocusBoundingBox(data, spawn.region?.polygon),
+    region: spawn.region?.polygon,
+    labels: spawn.observations.map((o) => `(${o.listener}) ${o.username}`),
+    drawBounds: false,
+    drawLegend: true,
+  });
+}
@@ -70,21 +70,43 @@ export function intersectHalfPlanes(hpList: HalfPlane[]): Point[] {
   return polygon;
 }
 
+/**
+ * The server converts the projected coordinate with Java's (int) cast, which truncates toward zero.
+ * So the true coordinate behind a reported value lies in [rel, rel+1] when it is positive,
+ * in [rel-1, rel] when it is negative and in [-1, 1] when it is 0.
+ */
+export function truncationCell(rel: number): [number, number] {
+  if (rel > 0) return [rel, rel + 1];
+  if (rel < 0) return [rel - 1, rel];
+  return [-1, 1];
+}
+
+/**
+ * Lower corner of the unit cell the solvers search for a reported value, their offsets run from 0 to 1 with
+ * 0.5 as the centre. It is centred on the truncation cell, for 0 that is the middle half of [-1, 1].
+ */
+export function cellOrigin(rel: number): number {
+  const [lo, hi] = truncationCell(rel);
+  return (lo + hi) / 2 - 0.5;
+}
+
 /**
  * Given an observation, computes its wedge constraints.
- * For each observation, we compute the angles to the four corners of the 1×1 square:
- *   [relX, relX+1) x [relZ, relZ+1)
- * and then derive two half-planes (one for the minimum angle and one for the maximum angle).
+ * For each observation, we compute the angles to the four corners of the cell the true coordinate
+ * lies in (see truncationCell) and then derive two half-planes (one for the minimum angle and one
+ * for the maximum angle).
  * For simplicity, here we assume the feasible region is defined by the two lines at θmin and θmax,
  * with the "inside" determined by testing a midpoint.
  */
 export function getWedgeHalfPlanes(obs: Observation): HalfPlane[] {
   const P: Point = { x: obs.playerX, z: obs.playerZ };
+  const [x0, x1] = truncationCell(obs.relX);
+  const [z0, z1] = truncationCell(obs.relZ);
   const corners: Point[] = [
-    { x: obs.relX,     z: obs.relZ },
-    { x: obs.relX + 1, z: obs.relZ },
-    { x: obs.relX,     z: obs.relZ + 1 },
-    { x: obs.relX + 1, z: obs.relZ + 1 },
+    { x: x0, z: z0 },
+    { x: x1, z: z0 },
+    { x: x0, z: z1 },
+    { x: x1, z: z1 },
   ];
   const angles = corners.map(c => Math.atan2(c.z - P.z, c.x - P.x));
   const thetaMin = Math.min(...angles);
@@ -126,3 +148,182 @@ export function buildErrorRegion(observations: Observation[]): Point[] {
   }
   return intersectHalfPlanes(hpList);
 }
+
+/**
+ * Area of a simple polygon (shoelace formula).
+ */
+export function polygonArea(polygon: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    sum += a.x * b.z - b.x * a.z;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Centroid of a simple polygon, falls back to the vertex average for degenerate polygons.
+ */
+export function polygonCentroid(polygon: Point[]): Point {
+  let cross = 0, cx = 0, cz = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const f = a.x * b.z - b.x * a.z;
+    cross += f;
+    cx += (a.x + b.x) * f;
+    cz += (a.z + b.z) * f;
+  }
+  if (Math.abs(cross) < 1e-12) {
+    return {
+      x: polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length,
+      z: polygon.reduce((sum, p) => sum + p.z, 0) / polygon.length,
+    };
+  }
+  return { x: cx / (3 * cross), z: cz / (3 * cross) };
+}
+
+/**
+ * Largest distance between any two vertices.
+ */
+export function polygonDiameter(polygon: Point[]): number {
+  let max = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    for (let j = i + 1; j < polygon.length; j++) {
+      max = Math.max(max, Math.hypot(polygon[i].x - polygon[j].x, polygon[i].z - polygon[j].z));
+    }
+  }
+  return max;
+}
+
+/**
+ * Extent of the polygon along its principal axis (length) and across it (width), the axis from the covariance
+ * of the vertices. `angle` is the direction of the principal axis in radians, from +x towards +z.
+ */
+export function polygonAxes(polygon: Point[]): { length: number; width: number; angle: number } {
+  const mean = {
+    x: polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length,
+    z: polygon.reduce((sum, p) => sum + p.z, 0) / polygon.length,
+  };
+  let xx = 0, zz = 0, xz = 0;
+  for (const p of polygon) {
+    xx += (p.x - mean.x) ** 2;
+    zz += (p.z - mean.z) ** 2;
+    xz += (p.x - mean.x) * (p.z - mean.z);
+  }
+  const angle = 0.5 * Math.atan2(2 * xz, xx - zz);
+  const along = polygon.map(p => p.x * Math.cos(angle) + p.z * Math.sin(angle));
+  const across = polygon.map(p => -p.x * Math.sin(angle) + p.z * Math.cos(angle));
+  return {
+    length: Math.max(...along) - Math.min(...along),
+    width: Math.max(...across) - Math.min(...across),
+    angle,
+  };
+}
+
+/**
+ * Even-odd point in polygon test.
+ */
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.z > p.z) !== (b.z > p.z) && p.x < ((b.x - a.x) * (p.z - a.z)) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Intersection of two convex polygons, every edge of `clip` cuts `subject`. Empty when they do not overlap.
+ */
+export function intersectConvexPolygons(subject: Point[], clip: Point[]): Point[] {
+  if (clip.length < 3) return [];
+  const inside = polygonCentroid(clip);
+  let polygon = subject;
+  for (let i = 0; i < clip.length && polygon.length > 0; i++) {
+    const a = clip[i];
+    const b = clip[(i + 1) % clip.length];
+    let hp: HalfPlane = { a: b.z - a.z, b: a.x - b.x, c: (b.z - a.z) * a.x + (a.x - b.x) * a.z };
+    if (signedDistance(inside, hp) > 0) {
+      hp = { a: -hp.a, b: -hp.b, c: -hp.c };
+    }
+    polygon = clipPolygonAgainstHalfPlane(polygon, hp);
+  }
+  return polygon.length < 3 ? [] : polygon;
+}
+
+/**
+ * Regular polygon that contains the circle, for when only an error radius is known.
+ */
+export function circlePolygon(center: Point, radius: number, sides = 16): Point[] {
+  const outer = radius / Math.cos(Math.PI / sides);
+  return Array.from({ length: sides }, (_, i) => ({
+    x: center.x + outer * Math.cos((2 * Math.PI * i) / sides),
+    z: center.z + outer * Math.sin((2 * Math.PI * i) / sides),
+  }));
+}
+
+/**
+ * Whether a polygon and a circle share any point: the center is inside or an edge comes within the radius.
+ */
+export function polygonIntersectsCircle(polygon: Point[], center: Point, radius: number): boolean {
+  if (pointInPolygon(center, polygon)) return true;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const dx = b.x - a.x, dz = b.z - a.z;
+    const lengthSq = dx * dx + dz * dz;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((center.x - a.x) * dx + (center.z - a.z) * dz) / lengthSq));
+    if (Math.hypot(a.x + t * dx - center.x, a.z + t * dz - center.z) <= radius) return true;
+  }
+  return false;
+}
+
+function segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+  const side = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.z - p.z) - (q.z - p.z) * (r.x - p.x));
+  return side(a, b, c) !== side(a, b, d) && side(c, d, a) !== side(c, d, b);
+}
+
+/**
+ * Whether two simple polygons, convex or not, share any point: one holds a vertex of the other or their edges cross.
+ */
+export function polygonsIntersect(a: Point[], b: Point[]): boolean {
+  if (a.some(p => pointInPolygon(p, b)) || b.some(p => pointInPolygon(p, a))) return true;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsCross(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) return true;
+    }
+  }
+  return false;
+}
+
+export interface ErrorRegion {
+  polygon: Point[];
+  area: number;
+  centroid: Point;
+  diameter: number;
+}
+
+export function describePolygon(polygon: Point[]): ErrorRegion {
+  return {
+    polygon,
+    area: polygonArea(polygon),
+    centroid: polygonCentroid(polygon),
+    diameter: polygonDiameter(polygon),
+  };
+}
+
+/**
+ * Builds the error region of the observations and describes it. Returns null when the observations
+ * are inconsistent (empty region) or do not bound it (the region still touches the initial 1e9 box).
+ */
+export function describeErrorRegion(observations: Observation[]): ErrorRegion | null {
+  const polygon = buildErrorRegion(observations);
+  if (polygon.length < 3) return null;
+  if (polygon.some(p => Math.abs(p.x) >= 1e9 - 1 || Math.abs(p.z) >= 1e9 - 1)) return null;
+  return describePolygon(polygon);
+}
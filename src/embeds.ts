@@ -0,0 +1,54 @@
+import type { EmbedField, SpawnRecord } from "./types";
+import { observationResidual } from "./solver";
+import { polygonAxes } from "./drawing/polygonUtils";
+
+/** Discord caps field values at 1024 characters. */
+const maxFieldValue = 1024;
+
+/** Axis directions by multiples of 45° from +x towards +z, +z being south. */
+const axisDirections = ["E–W", "SE–NW", "N–S", "NE–SW"];
+
+function axisDirection(angle: number): string {
+    const degrees = ((angle * 180) / Math.PI + 180) % 180;
+    return axisDirections[Math.round(degrees / 45) % axisDirections.length];
+}
+
+function fieldValue(lines: string[]): string {
+    let value = "";
+    for (let i = 0; i < lines.length; i++) {
+        if (value.length + lines[i].length + 1 > maxFieldValue - 20) {
+            return `${value}…and ${lines.length - i} more`;
+        }
+        value += (i === 0 ? "" : "\n") + lines[i];
+    }
+    return value;
+}
+
+/**
+ * How good the estimate of a spawn is: its error, the region consistent with every observation,
+ * the solver and how far the estimate is from each listener's ray.
+ */
+export function spawnFields(spawn: SpawnRecord): EmbedField[] {
+    let region = "Not bounded by the observations";
+    if (spawn.region) {
+        const { length, width, angle } = polygonAxes(spawn.region.polygon);
+        region = `${Math.round(spawn.region.area)} blocks², ${length.toFixed(1)} × ${width.toFixed(1)} blocks, long axis ${axisDirection(angle)}`;
+    }
+
+    const listeners = spawn.observations.map((o) => {
+        const residual = observationResidual(
+            { playerX: o.bPosition.x, playerZ: o.bPosition.z, relX: o.wPosition.x, relZ: o.wPosition.z },
+            o.offset,
+            spawn.x,
+            spawn.z
+        );
+        return `(${o.listener}) ${o.username}: ${residual.toFixed(2)} blocks off its ray`;
+    });
+
+    return [
+        { name: "Error radius", value: `±${spawn.errorRadius.toFixed(1)} blocks`, inline: true },
+        { name: "Feasible region", value: region, inline: true },
+        { name: "Solver", value: `${spawn.solver} in ${spawn.solveMs} ms`, inline: true },
+        { name: `Listeners (${spawn.observations.length})`, value: fieldValue(listeners), inline: false },
+    ];
+}
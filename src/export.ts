@@ -0,0 +1,113 @@
+import "dotenv/config";
+import fs from "fs";
+import { createStorage } from "./storage";
+import { findAllSpawns, matchesBaseQuery } from "./storage/query";
+import { exportBases, exportFormats, exportSpawns, ExportFormat } from "./exporters";
+import type { SpawnQuery } from "./types";
+import type { WorldEventName } from "./worldEvents";
+
+/**
+ * Exports stored spawns, or bases, from the storage selected by `storage`.
+ *
+ *   npx ts-node src/export.ts [--bases] [--format csv|geojson|xaero|voxelmap] [--out file]
+ *       [--server name] [--event wither_spawned] [--location name] [--since 2025-01-01] [--until 2025-02-01]
+ *       [--bbox minX,maxX,minZ,maxZ] [--near x,z,radius] [--limit n] [--offset n]
+ */
+
+interface ExportArgs {
+    bases: boolean;
+    format: ExportFormat;
+    out?: string;
+    query: SpawnQuery;
+}
+
+function numbers(value: string, count: number, flag: string): number[] {
+    const parsed = value.split(",").map(Number);
+    if (parsed.length !== count || parsed.some(isNaN)) {
+        throw new Error(`${flag} expects ${count} comma separated numbers, got "${value}".`);
+    }
+    return parsed;
+}
+
+function date(value: string, flag: string): number {
+    const time = Date.parse(value);
+    if (isNaN(time)) throw new Error(`${flag} expects a date, got "${value}".`);
+    return time;
+}
+
+function parseArgs(argv: string[]): ExportArgs {
+    const args: ExportArgs = { bases: false, format: "csv", query: {} };
+    for (let i = 0; i < argv.length; i++) {
+        const flag = argv[i];
+        if (flag === "--bases") {
+            args.bases = true;
+            continue;
+        }
+        const value = argv[++i];
+        if (value == null) throw new Error(`${flag} needs a value.`);
+        switch (flag) {
+            case "--format":
+                if (!exportFormats.includes(value as ExportFormat)) {
+                    throw new Error(`Unknown format "${value}", expected ${exportFormats.join(", ")}.`);
+                }
+                args.format = value as ExportFormat;
+                break;
+            case "--out": args.out = value; break;
+            case "--server": args.query.server = value; break;
+            case "--event": args.query.eventType = value as WorldEventName; break;
+            case "--location": args.query.location = value; break;
+            case "--since": args.query.since = date(value, flag); break;
+            case "--until": args.query.until = date(value, flag); break;
+            case "--bbox": {
+                const [minX, maxX, minZ, maxZ] = numbers(value, 4, flag);
+                args.query.bbox = { minX, maxX, minZ, maxZ };
+                break;
+            }
+            case "--near": {
+                const [x, z, radius] = numbers(value, 3, flag);
+                args.query.near = { x, z, radius };
+                break;
+            }
+            case "--limit": args.query.limit = parseInt(value); break;
+            case "--offset": args.query.offset = parseInt(value); break;
+            default: throw new Error(`Unknown argument ${flag}`);
+        }
+    }
+    return args;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const storage = createStorage();
+    await storage.init();
+    try {
+        let output: string;
+        let count: number;
+        if (args.bases) {
+            const { offset = 0, limit } = args.query;
+            const bases = (await storage.listBases(args.query.server)).filter((base) => matchesBaseQuery(base, args.query));
+            const page = bases.slice(offset, limit == null ? undefined : offset + limit);
+            output = exportBases(page, args.format);
+            count = page.length;
+        } else {
+            // Without a limit everything that matches is exported, not just the first page.
+            const spawns = args.query.limit == null ? await findAllSpawns(storage, args.query) : await storage.findSpawns(args.query);
+            output = exportSpawns(spawns, args.format);
+            count = spawns.length;
+        }
+
+        if (args.out) {
+            fs.writeFileSync(args.out, output);
+            console.error(`Exported ${count} ${args.bases ? "bases" : "spawns"} to ${args.out}.`);
+        } else {
+            process.stdout.write(output);
+        }
+    } finally {
+        await storage.close();
+    }
+}
+
+main().catch((error) => {
+    console.error(error.message ?? error);
+    process.exit(1);
+});
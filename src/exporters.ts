@@ -0,0 +1,156 @@
+import type { Base, StoredSpawn } from "./types";
+import { getWorldEvent } from "./worldEvents";
+import type { Point } from "./drawing/polygonUtils";
+
+export type ExportFormat = "csv" | "geojson" | "xaero" | "voxelmap";
+
+export const exportFormats: ExportFormat[] = ["csv", "geojson", "xaero", "voxelmap"];
+
+/**
+ * Something that can be put on a map, spawns and bases are both exported through this.
+ */
+interface Waypoint {
+    name: string,
+    x: number,
+    y: number,
+    z: number,
+    /** Color name as used by the embeds, see `Discord.getEmbedColor`. */
+    color: string,
+}
+
+/** Xaero's Minimap color indices. */
+const xaeroColors: Record<string, number> = { yellow: 14, purple: 5, green: 10, red: 12, blue: 9 };
+
+/** VoxelMap colors, as red/green/blue fractions. */
+const voxelColors: Record<string, [number, number, number]> = {
+    yellow: [1, 1, 0],
+    purple: [0.54, 0.17, 0.89],
+    green: [0, 1, 0],
+    red: [1, 0, 0],
+    blue: [0, 0, 1],
+};
+
+function csvField(value: string | number | null): string {
+    if (value == null) return "";
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(header: string[], rows: (string | number | null)[][]): string {
+    return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+function spawnWaypoint(spawn: StoredSpawn): Waypoint {
+    const worldEvent = getWorldEvent(spawn.eventType);
+    const date = new Date(spawn.observedAt).toISOString().slice(0, 16).replace("T", " ");
+    return { name: `${worldEvent.title} ${date}`, x: spawn.x, y: spawn.y, z: spawn.z, color: worldEvent.color };
+}
+
+function baseWaypoint(base: Base): Waypoint {
+    return { name: base.name, x: base.centroid.x, y: 64, z: base.centroid.z, color: "red" };
+}
+
+/**
+ * `#waypoint:name:initials:x:y:z:color:disabled:type:set:rotate_on_tp:tp_yaw:global`, colons in names are escaped as `§§`.
+ */
+function xaeroWaypoints(waypoints: Waypoint[]): string {
+    const lines = waypoints.map((w) => {
+        const name = w.name.replace(/:/g, "§§");
+        const initials = name.replace(/[^A-Za-z0-9]/g, "").slice(0, 1).toUpperCase() || "W";
+        return `waypoint:${name}:${initials}:${Math.floor(w.x)}:${Math.floor(w.y)}:${Math.floor(w.z)}:${xaeroColors[w.color] ?? 15}:false:0:gui.xaero_default:false:0:false`;
+    });
+    return ["#", "#waypoint:name:initials:x:y:z:color:disabled:type:set:rotate_on_tp:tp_yaw:global", "#", ...lines].join("\n") + "\n";
+}
+
+/**
+ * One `key:value,...#` line per waypoint, commas and colons in names are escaped as `~comma~` and `~colon~`.
+ */
+function voxelmapWaypoints(waypoints: Waypoint[]): string {
+    return waypoints.map((w) => {
+        const name = w.name.replace(/,/g, "~comma~").replace(/:/g, "~colon~");
+        const [red, green, blue] = voxelColors[w.color] ?? [1, 1, 1];
+        return `name:${name},x:${Math.floor(w.x)},z:${Math.floor(w.z)},y:${Math.floor(w.y)},enabled:true,red:${red},green:${green},blue:${blue},suffix:,world:,dimensions:overworld#`;
+    }).join("\n") + "\n";
+}
+
+/**
+ * GeoJSON ring, closed as the spec requires. Minecraft x/z are used as is, z grows to the south.
+ */
+function ring(polygon: Point[]): number[][] {
+    const coordinates = polygon.map((p) => [p.x, p.z]);
+    return [...coordinates, coordinates[0]];
+}
+
+function featureCollection(features: object[]): string {
+    return JSON.stringify({ type: "FeatureCollection", features }, null, 2) + "\n";
+}
+
+export function exportSpawns(spawns: StoredSpawn[], format: ExportFormat): string {
+    switch (format) {
+        case "csv":
+            return csv(
+                ["uid", "server", "event_type", "x", "y", "z", "error_radius", "solver", "observed_at", "location", "region_area"],
+                spawns.map((s) => [
+                    s.uid, s.server, s.eventType, s.x, s.y, s.z, s.errorRadius, s.solver,
+                    new Date(s.observedAt).toISOString(), s.location, s.region?.area ?? null,
+                ])
+            );
+        case "geojson":
+            return featureCollection(spawns.flatMap((s) => {
+                const properties = {
+                    uid: s.uid,
+                    server: s.server,
+                    eventType: s.eventType,
+                    errorRadius: s.errorRadius,
+                    solver: s.solver,
+                    observedAt: new Date(s.observedAt).toISOString(),
+                    location: s.location,
+                };
+                const point = { type: "Feature", geometry: { type: "Point", coordinates: [s.x, s.z] }, properties: { ...properties, kind: "estimate" } };
+                if (!s.region) return [point];
+                const region = {
+                    type: "Feature",
+                    geometry: { type: "Polygon", coordinates: [ring(s.region.polygon)] },
+                    properties: { ...properties, kind: "error_region", area: s.region.area },
+                };
+                return [point, region];
+            }));
+        case "xaero":
+            return xaeroWaypoints(spawns.map(spawnWaypoint));
+        case "voxelmap":
+            return voxelmapWaypoints(spawns.map(spawnWaypoint));
+    }
+}
+
+export function exportBases(bases: Base[], format: ExportFormat): string {
+    switch (format) {
+        case "csv":
+            return csv(
+                ["name", "server", "x", "z", "min_x", "max_x", "min_z", "max_z", "spawn_count", "first_seen", "last_seen"],
+                bases.map((b) => [
+                    b.name, b.server, b.centroid.x, b.centroid.z, b.extent.minX, b.extent.maxX, b.extent.minZ, b.extent.maxZ,
+                    b.spawnCount, new Date(b.firstSeen).toISOString(), new Date(b.lastSeen).toISOString(),
+                ])
+            );
+        case "geojson":
+            return featureCollection(bases.flatMap((b) => {
+                const properties = {
+                    name: b.name,
+                    server: b.server,
+                    spawnCount: b.spawnCount,
+                    firstSeen: new Date(b.firstSeen).toISOString(),
+                    lastSeen: new Date(b.lastSeen).toISOString(),
+                };
+                const { minX, maxX, minZ, maxZ } = b.extent;
+                const extent = [{ x: minX, z: minZ }, { x: maxX, z: minZ }, { x: maxX, z: maxZ }, { x: minX, z: maxZ }];
+                return [
+                    { type: "Feature", geometry: { type: "Point", coordinates: [b.centroid.x, b.centroid.z] }, properties: { ...properties, kind: "centroid" } },
+                    { type: "Feature", geometry: { type: "Polygon", coordinates: [ring(extent)] }, properties: { ...properties, kind: "extent" } },
+                ];
+            }));
+        case "xaero":
+            return xaeroWaypoints(bases.map(baseWaypoint));
+        case "voxelmap":
+            return voxelmapWaypoints(bases.map(baseWaypoint));
+    }
+}
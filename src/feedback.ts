@@ -0,0 +1,119 @@
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    ModalBuilder,
+    StringSelectMenuBuilder,
+    TextInputBuilder,
+    TextInputStyle,
+} from "discord.js";
+import type { ComponentHandler } from "./commands";
+import type { SpawnStorage } from "./storage";
+import type { SpawnLabel, SpawnLabelKind } from "./types";
+
+/**
+ * Buttons under spawn embeds that let members label the spawn. Custom ids are `label:<action>:<spawn uid>`.
+ */
+
+const prefix = "label";
+
+function customId(action: string, uid: string): string {
+    return `${prefix}:${action}:${uid}`;
+}
+
+/**
+ * The row of feedback buttons for a spawn embed.
+ */
+export function feedbackComponents(uid: string): ActionRowBuilder<ButtonBuilder>[] {
+    return [
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder().setCustomId(customId("confirmed", uid)).setLabel("Confirmed").setStyle(ButtonStyle.Success),
+            new ButtonBuilder().setCustomId(customId("false_positive", uid)).setLabel("False positive").setStyle(ButtonStyle.Danger),
+            new ButtonBuilder().setCustomId(customId("base", uid)).setLabel("Assign to base…").setStyle(ButtonStyle.Secondary),
+            new ButtonBuilder().setCustomId(customId("truth", uid)).setLabel("Ground truth coordinates…").setStyle(ButtonStyle.Secondary),
+        ),
+    ];
+}
+
+function label(uid: string, kind: SpawnLabelKind, author: string, extra: Partial<SpawnLabel> = {}): SpawnLabel {
+    return { spawnUid: uid, kind, base: null, x: null, z: null, author, createdAt: Date.now(), ...extra };
+}
+
+/**
+ * Writes the labels members give through the feedback buttons.
+ */
+export function createFeedbackHandler(storage: SpawnStorage): ComponentHandler {
+    return {
+        prefix,
+        async handle(interaction) {
+            const [, action, ...rest] = interaction.customId.split(":");
+            const uid = rest.join(":");
+            const author = interaction.user.id;
+
+            if (action === "confirmed" || action === "false_positive") {
+                await storage.addLabel(label(uid, action, author));
+                await interaction.reply({ content: `Thanks, marked as ${action === "confirmed" ? "confirmed" : "a false positive"}.`, ephemeral: true });
+                return;
+            }
+
+            if (action === "base") {
+                const spawn = await storage.getSpawn(uid);
+                const distance = (b: { centroid: { x: number, z: number } }) => spawn ? Math.hypot(b.centroid.x - spawn.x, b.centroid.z - spawn.z) : 0;
+                const bases = (await storage.listBases(spawn?.server))
+                    .sort((a, b) => distance(a) - distance(b))
+                    .slice(0, 25);
+                if (bases.length === 0) {
+                    await interaction.reply({ content: "No bases have been detected yet.", ephemeral: true });
+                    return;
+                }
+                const menu = new StringSelectMenuBuilder()
+                    .setCustomId(customId("pick-base", uid))
+                    .setPlaceholder("Base")
+                    .addOptions(bases.map((b) => ({
+                        label: b.name,
+                        value: b.name,
+                        description: spawn ? `${Math.round(distance(b))} blocks away, ${b.spawnCount} spawns` : `${b.spawnCount} spawns`,
+                    })));
+                await interaction.reply({
+                    content: "Which base does this spawn belong to?",
+                    components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu)],
+                    ephemeral: true,
+                });
+                return;
+            }
+
+            if (action === "pick-base" && interaction.isStringSelectMenu()) {
+                const base = interaction.values[0];
+                await storage.addLabel(label(uid, "base", author, { base }));
+                await interaction.update({ content: `Thanks, assigned to ${base}.`, components: [] });
+                return;
+            }
+
+            if (action === "truth" && interaction.isButton()) {
+                const input = (id: string, name: string) => new ActionRowBuilder<TextInputBuilder>().addComponents(
+                    new TextInputBuilder().setCustomId(id).setLabel(name).setStyle(TextInputStyle.Short).setRequired(true).setMaxLength(12));
+                await interaction.showModal(new ModalBuilder()
+                    .setCustomId(customId("truth-form", uid))
+                    .setTitle("Where did it really happen?")
+                    .addComponents(input("x", "X coordinate"), input("z", "Z coordinate")));
+                return;
+            }
+
+            if (action === "truth-form" && interaction.isModalSubmit()) {
+                const x = Number(interaction.fields.getTextInputValue("x"));
+                const z = Number(interaction.fields.getTextInputValue("z"));
+                if (!Number.isFinite(x) || !Number.isFinite(z)) {
+                    await interaction.reply({ content: "Coordinates should be numbers.", ephemeral: true });
+                    return;
+                }
+                await storage.addLabel(label(uid, "ground_truth", author, { x, z }));
+                const spawn = await storage.getSpawn(uid);
+                const off = spawn ? `, the estimate was ${Math.round(Math.hypot(spawn.x - x, spawn.z - z))} blocks off` : "";
+                await interaction.reply({ content: `Thanks, recorded ${Math.round(x)}, ${Math.round(z)}${off}.`, ephemeral: true });
+                return;
+            }
+
+            console.warn(`Unknown feedback action ${interaction.customId}`);
+        },
+    };
+}
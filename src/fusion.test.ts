@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fuseRegions } from "./fusion";
+import { polygonCentroid } from "./drawing/polygonUtils";
+import type { Point } from "./drawing/polygonUtils";
+
+function square(x: number, z: number, half: number): Point[] {
+    return [
+        { x: x - half, z: z - half },
+        { x: x + half, z: z - half },
+        { x: x + half, z: z + half },
+        { x: x - half, z: z + half },
+    ];
+}
+
+test("fuses the regions that agree", () => {
+    const fused = fuseRegions([square(0, 0, 10), square(4, 0, 10), square(0, 4, 10)]);
+    assert.ok(fused);
+    assert.equal(fused.used, 3);
+    assert.equal(fused.rejected, 0);
+});
+
+test("rejects an outlier even when it is the smallest region", () => {
+    const fused = fuseRegions([square(0, 0, 10), square(4, 0, 10), square(0, 4, 10), square(500, 500, 1)]);
+    assert.ok(fused);
+    assert.equal(fused.used, 3);
+    assert.equal(fused.rejected, 1);
+    const centroid = polygonCentroid(fused.polygon);
+    assert.ok(Math.hypot(centroid.x, centroid.z) < 10);
+});
@@ -0,0 +1,88 @@
+import type { SiteEstimate, SpawnRecord, StoredSpawn } from "./types";
+import type { SpawnStorage } from "./storage";
+import { findAllSpawns } from "./storage/query";
+import { circlePolygon, describePolygon, intersectConvexPolygons, Point, polygonsIntersect } from "./drawing/polygonUtils";
+
+/**
+ * Error region of a spawn, a circle of its error radius when the observations did not bound one.
+ */
+function spawnPolygon(spawn: Pick<StoredSpawn, "x" | "z" | "errorRadius" | "region">): Point[] | null {
+    if (spawn.region) return spawn.region.polygon;
+    if (spawn.errorRadius == null) return null;
+    return circlePolygon(spawn, spawn.errorRadius);
+}
+
+/**
+ * Intersects the regions, starting from those overlapping the most others so the seed is one the consensus
+ * agrees with, then smallest first since those constrain the most. A region that would leave nothing is
+ * rejected, one bad spawn cannot wipe out a site. Null when there is no region at all.
+ */
+export function fuseRegions(regions: Point[][]): { polygon: Point[], used: number, rejected: number } | null {
+    const sorted = regions
+        .map((polygon, i) => ({
+            polygon,
+            area: describePolygon(polygon).area,
+            overlaps: regions.filter((other, j) => j !== i && polygonsIntersect(polygon, other)).length,
+        }))
+        .sort((a, b) => b.overlaps - a.overlaps || a.area - b.area);
+    if (sorted.length === 0) return null;
+
+    let polygon = sorted[0].polygon;
+    let used = 1, rejected = 0;
+    for (const region of sorted.slice(1)) {
+        const fused = intersectConvexPolygons(polygon, region.polygon);
+        if (fused.length === 0) {
+            rejected++;
+            continue;
+        }
+        polygon = fused;
+        used++;
+    }
+    return { polygon, used, rejected };
+}
+
+/**
+ * Refines the location of every known site by fusing the spawns attributed to it. Each spawn's region only
+ * depends on the listeners that heard it, so spawns heard by different fleet layouts fuse just the same.
+ */
+export default class SiteFusion {
+    /** Updates run one at a time so two spawns at the same site cannot overwrite each other's estimate. */
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private storage: SpawnStorage) {}
+
+    /**
+     * Refuses the site of a new spawn, nothing happens when it was not attributed to one.
+     */
+    add(spawn: SpawnRecord): Promise<void> {
+        const location = spawn.location;
+        if (location == null) return Promise.resolve();
+        this.pending = this.pending.then(() => this.fuse(location, spawn.server, spawn)).catch((error) => {
+            console.error(`Error fusing spawns at ${location}:`, error);
+        });
+        return this.pending;
+    }
+
+    private async fuse(location: string, server: string, latest: SpawnRecord): Promise<void> {
+        const spawns: Pick<StoredSpawn, "uid" | "x" | "z" | "errorRadius" | "region">[] = await findAllSpawns(this.storage, { location, server });
+        // The spool may not have written it yet.
+        if (!spawns.some((s) => s.uid === latest.uid)) spawns.push(latest);
+
+        const fused = fuseRegions(spawns.map(spawnPolygon).filter((p): p is Point[] => p != null));
+        if (!fused) return;
+
+        const estimate: SiteEstimate = {
+            location,
+            server,
+            region: describePolygon(fused.polygon),
+            spawnCount: fused.used,
+            rejected: fused.rejected,
+            updatedAt: Date.now(),
+        };
+        await this.storage.saveSiteEstimate(estimate);
+        console.log(
+            `[${server}] ${location} is at x=${estimate.region.centroid.x.toFixed(1)} z=${estimate.region.centroid.z.toFixed(1)} ` +
+            `±${(estimate.region.diameter / 2).toFixed(1)} from ${fused.used} spawns (${fused.rejected} rejected).`
+        );
+    }
+}
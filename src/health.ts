@@ -0,0 +1,88 @@
+import type { ListenerAccount, Position, Soundwave } from "./types";
+import type { ListenerStatus } from "./listener";
+
+/**
+ * A snapshot of how a listener is doing.
+ */
+export interface ListenerHealth {
+    id: number;
+    username: string;
+    status: ListenerStatus;
+    connected: boolean;
+    /** Bots kill themselves on spawn and stay dead, so this is informational only. */
+    alive: boolean;
+    dimension: string | null;
+    position: Position | null;
+    /** Horizontal distance (blocks) from the account's post, null without a post or position. */
+    drift: number | null;
+    /** Epoch millis of the last packet of any kind. */
+    lastPacketAt: number | null;
+    ping: number | null;
+}
+
+/**
+ * When a listener's observations are still trusted.
+ */
+export const healthPolicy = {
+    /** Horizontal distance (blocks) a bot may be from its post. */
+    maxDrift: process.env.max_drift == null ? 16 : parseFloat(process.env.max_drift),
+    /** `exclude` drops drifted observations from the solve, `flag` keeps them but reports them. */
+    driftPolicy: (process.env.drift_policy ?? "exclude") as "exclude" | "flag",
+    /** A connection without any packet for this long (ms) is considered stalled. */
+    staleAfter: process.env.stale_after == null ? 30_000 : parseInt(process.env.stale_after),
+    /** Observations only make sense from the dimension the posts are in. */
+    dimension: process.env.dimension ?? "overworld",
+};
+
+export function driftFromPost(account: ListenerAccount, position: Position | null): number | null {
+    if (!account.target || !position) return null;
+    return Math.hypot(position.x - account.target.x, position.z - account.target.z);
+}
+
+/**
+ * Strips the namespace, versions before 1.16 report `overworld` and later ones `minecraft:overworld`.
+ */
+export function normalizeDimension(dimension: string): string {
+    return dimension.replace(/^minecraft:/, "");
+}
+
+/**
+ * Everything that is wrong with a listener right now, empty when it is healthy.
+ */
+export function healthProblems(health: ListenerHealth, now: number = Date.now()): string[] {
+    const problems: string[] = [];
+    if (!health.connected) problems.push(health.status);
+    if (health.connected && health.lastPacketAt != null && now - health.lastPacketAt > healthPolicy.staleAfter) {
+        problems.push(`no packets for ${Math.round((now - health.lastPacketAt) / 1000)}s`);
+    }
+    if (health.dimension != null && health.dimension !== healthPolicy.dimension) problems.push(`in the ${health.dimension}`);
+    if (health.drift != null && health.drift > healthPolicy.maxDrift) problems.push(`${Math.round(health.drift)} blocks from its post`);
+    return problems;
+}
+
+export interface Assessment {
+    /** Reason the observation must not be used. */
+    exclude?: string;
+    /** Reason the observation is used but suspicious. */
+    flag?: string;
+}
+
+/**
+ * Decides whether an observation can be trusted. The drift is measured on the soundwave itself since that is
+ * where the bot was when it heard the event, the dimension comes from the listener's health when there is one.
+ */
+export function assessObservation(account: ListenerAccount, wave: Soundwave, health: ListenerHealth | null): Assessment {
+    if (health) {
+        if (health.dimension != null && health.dimension !== healthPolicy.dimension) {
+            return { exclude: `${health.username} is in the ${health.dimension}` };
+        }
+    }
+
+    const drift = driftFromPost(account, wave.bPosition);
+    if (drift != null && drift > healthPolicy.maxDrift) {
+        const reason = `${wave.user} is ${Math.round(drift)} blocks away from its post`;
+        return healthPolicy.driftPolicy === "exclude" ? { exclude: reason } : { flag: reason };
+    }
+
+    return {};
+}
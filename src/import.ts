@@ -0,0 +1,156 @@
+import "dotenv/config";
+import fs from "fs";
+import { createStorage } from "./storage";
+import { parseSolverChain, solve, toObservations } from "./solver";
+import { toSpawnRecord } from "./spawnRecord";
+import { CoordinateDump, importUid, ImportOptions, ImportResult, parseConsoleLog, parseCoordinateDumps } from "./importer";
+import LocationRegistry from "./locations";
+import BaseTracker from "./bases";
+import SiteFusion from "./fusion";
+import type { ListenerAccount, Position, SpawnRecord } from "./types";
+import type { WorldEventName } from "./worldEvents";
+
+/**
+ * Imports historical observations into the storage selected by `storage`, solving them with the current solver chain.
+ *
+ *   npx ts-node src/import.ts [--server name] [--event wither_spawned] [--at 2025-01-01] [--view-distance 8]
+ *       [--solver residual,linear] [--dry-run] [--log console.log]... [--dump outerSquare.txt --bot x,y,z [--user name]]...
+ *
+ * Logs are listener console output (`(1) user => bPos(x,y,z) wPos(x,y,z)`). Dumps are `x,y,z` per line as sent to one
+ * listener, every dump needs the position of its bot and line n of every dump is taken to be the same event.
+ */
+
+interface ImportArgs {
+    server: string;
+    solver: string;
+    dryRun: boolean;
+    options: ImportOptions;
+    logs: string[];
+    dumps: { file: string, bot?: Position, user?: string }[];
+}
+
+function parseArgs(argv: string[]): ImportArgs {
+    const args: ImportArgs = {
+        server: process.env.mc_server ?? process.env.host ?? "default",
+        solver: process.env.solver ?? "residual,linear",
+        dryRun: false,
+        options: {
+            event: "wither_spawned",
+            at: Date.now(),
+            viewDistance: process.env.view_distance == null ? 8 : parseInt(process.env.view_distance),
+        },
+        logs: [],
+        dumps: [],
+    };
+    const lastDump = (flag: string) => {
+        const dump = args.dumps[args.dumps.length - 1];
+        if (!dump) throw new Error(`${flag} belongs to a --dump, put it after one.`);
+        return dump;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const flag = argv[i];
+        if (flag === "--dry-run") {
+            args.dryRun = true;
+            continue;
+        }
+        const value = argv[++i];
+        if (value == null) throw new Error(`${flag} needs a value.`);
+        switch (flag) {
+            case "--server": args.server = value; break;
+            case "--event": args.options.event = value as WorldEventName; break;
+            case "--at":
+                args.options.at = Date.parse(value);
+                if (isNaN(args.options.at)) throw new Error(`--at expects a date, got "${value}".`);
+                break;
+            case "--view-distance": args.options.viewDistance = parseInt(value); break;
+            case "--solver": args.solver = value; break;
+            case "--log": args.logs.push(value); break;
+            case "--dump": args.dumps.push({ file: value }); break;
+            case "--bot": {
+                const [x, y, z] = value.split(",").map(Number);
+                if (![x, y, z].every(Number.isFinite)) throw new Error(`--bot expects x,y,z, got "${value}".`);
+                lastDump(flag).bot = { x, y, z };
+                break;
+            }
+            case "--user": lastDump(flag).user = value; break;
+            default: throw new Error(`Unknown argument ${flag}`);
+        }
+    }
+
+    if (args.logs.length === 0 && args.dumps.length === 0) {
+        throw new Error("Nothing to import, pass at least one --log or --dump.");
+    }
+    for (const dump of args.dumps) {
+        if (!dump.bot) throw new Error(`--dump ${dump.file} needs --bot, the dump does not say where the listener was.`);
+    }
+    return args;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const chain = parseSolverChain(args.solver);
+
+    const results: ImportResult[] = args.logs.map((file) => parseConsoleLog(file, fs.readFileSync(file, "utf8"), args.options));
+    if (args.dumps.length > 0) {
+        const dumps: CoordinateDump[] = args.dumps.map((dump, i) => ({
+            file: dump.file,
+            text: fs.readFileSync(dump.file, "utf8"),
+            listener: i + 1,
+            username: dump.user ?? `listener${i + 1}`,
+            bPosition: dump.bot!,
+        }));
+        results.push(parseCoordinateDumps(dumps, args.options));
+    }
+    const events = results.flatMap((r) => r.events);
+    const rejected = results.flatMap((r) => r.rejected);
+
+    const spawns: SpawnRecord[] = [];
+    for (const imported of events) {
+        const waves = [...imported.event.waves.values()];
+        const solution = solve(toObservations(waves), chain);
+        if (!solution) {
+            for (const line of imported.lines) {
+                rejected.push({ file: imported.file, line, text: "", reason: "no solver found a solution for this event" });
+            }
+            continue;
+        }
+        const fleet: ListenerAccount[] = [...imported.event.waves].map(([id, wave]) => ({
+            id, username: wave.user, auth: "offline", viewDistance: args.options.viewDistance,
+        }));
+        spawns.push(toSpawnRecord(args.server, imported.event, solution, fleet, importUid(args.server, imported)));
+    }
+
+    for (const r of rejected) {
+        console.log(`${r.file}:${r.line}: ${r.reason}${r.text ? `: ${r.text.trim()}` : ""}`);
+    }
+    console.log(`Parsed ${events.length} events, solved ${spawns.length}, rejected ${rejected.length} lines.`);
+    if (args.dryRun) {
+        for (const spawn of spawns) {
+            console.log(`${new Date(spawn.observedAt).toISOString()} ${spawn.eventType} x=${spawn.x.toFixed(1)} z=${spawn.z.toFixed(1)} ±${spawn.errorRadius.toFixed(1)} [${spawn.solver}]`);
+        }
+        return;
+    }
+
+    const storage = createStorage();
+    await storage.init();
+    try {
+        const locations = new LocationRegistry(storage);
+        await locations.load();
+        const fusion = new SiteFusion(storage);
+        for (const spawn of spawns) {
+            spawn.location = locations.match(spawn)?.name ?? null;
+            await storage.logSpawn(spawn);
+            await fusion.add(spawn);
+        }
+        await new BaseTracker(storage).rebuild(args.server);
+        console.log(`Imported ${spawns.length} spawns into ${args.server}, spawns that were already stored were skipped.`);
+    } finally {
+        await storage.close();
+    }
+}
+
+main().catch((error) => {
+    console.error(error.message ?? error);
+    process.exit(1);
+});
@@ -0,0 +1,215 @@
+import { createHash } from "crypto";
+import { Vec3 } from "vec3";
+import type { Position, Soundwave } from "./types";
+import type { CorrelatedEvent } from "./correlator";
+import { WorldEventName, worldEvents } from "./worldEvents";
+
+/**
+ * Parsers for historical data: console logs of the listeners and coordinate dumps.
+ */
+
+export interface ImportOptions {
+    /** Event type when the data does not say. */
+    event: WorldEventName;
+    /** Epoch millis to use when the data has no timestamps. */
+    at: number;
+    /** View distance (chunks) of the listeners, reported positions further out than that are rejected. */
+    viewDistance: number;
+}
+
+export interface ImportedEvent {
+    event: CorrelatedEvent;
+    file: string;
+    /** Line numbers (1-based) of the observations. */
+    lines: number[];
+    /** Whether the time of the event comes from the data rather than `ImportOptions.at`. */
+    timed: boolean;
+}
+
+export interface RejectedLine {
+    file: string;
+    line: number;
+    text: string;
+    reason: string;
+}
+
+export interface ImportResult {
+    events: ImportedEvent[];
+    rejected: RejectedLine[];
+}
+
+/** `(1) user => bPos(x,y,z) wPos(x,y,z)`, printed by `Foundry` for every observation it solves. */
+const observationLine = /\((\d+)\)\s+(\S+)\s+=>\s+bPos\(([^)]*)\)\s+wPos\(([^)]*)\)/;
+/** `User: user emitted a wither_spawned soundwave.`, printed when a soundwave comes in. */
+const emittedLine = /User: (\S+) emitted a (\w+) soundwave/;
+/** A timestamp at the start of the line, as added by most process managers. */
+const timestampPrefix = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)\]?/;
+
+function parseTriple(text: string): Position | null {
+    const parts = text.split(",").map((part) => part.trim());
+    if (parts.length !== 3 || parts.some((part) => part.length === 0)) return null;
+    const [x, y, z] = parts.map(Number);
+    return [x, y, z].every(Number.isFinite) ? { x, y, z } : null;
+}
+
+/**
+ * Why the reported position cannot come from a bot at `bPosition`, null when it can.
+ */
+export function validateObservation(bPosition: Position, wPosition: Position, viewDistance: number): string | null {
+    if (!Number.isInteger(wPosition.x) || !Number.isInteger(wPosition.z)) {
+        return "reported position is not a block position";
+    }
+    const reach = Math.max(Math.abs(wPosition.x - bPosition.x), Math.abs(wPosition.z - bPosition.z));
+    if (reach < 1) {
+        return "reported position is the bot position, it has no direction";
+    }
+    if (reach > viewDistance * 16 + 2) {
+        return `reported position is ${Math.round(reach)} blocks from the bot, view distance ${viewDistance} allows ${viewDistance * 16}`;
+    }
+    return null;
+}
+
+function wave(event: WorldEventName, user: string, bPosition: Position, wPosition: Position, receivedAt: number): Soundwave {
+    return {
+        event,
+        user,
+        bPosition: new Vec3(bPosition.x, bPosition.y, bPosition.z),
+        wPosition: new Vec3(wPosition.x, wPosition.y, wPosition.z),
+        receivedAt,
+    };
+}
+
+/**
+ * Events need two listeners, a lone observation only gives a direction.
+ */
+function collect(result: ImportResult, file: string, group: { waves: Map<number, Soundwave>, lines: { line: number, text: string }[] }, timed: boolean): void {
+    if (group.waves.size === 0) return;
+    if (group.waves.size < 2) {
+        for (const { line, text } of group.lines) {
+            result.rejected.push({ file, line, text, reason: "only one listener heard this event, at least two are needed" });
+        }
+        return;
+    }
+    const first = [...group.waves.values()][0];
+    const receivedAt = [...group.waves.values()].map((w) => w.receivedAt);
+    result.events.push({
+        event: {
+            event: first.event,
+            waves: group.waves,
+            openedAt: Math.min(...receivedAt),
+            closedAt: Math.max(...receivedAt),
+            complete: true,
+        },
+        file,
+        lines: group.lines.map((l) => l.line),
+        timed,
+    });
+}
+
+/**
+ * Parses a console log. Consecutive observation lines form an event, any other line or a listener
+ * that is already part of the event starts the next one.
+ */
+export function parseConsoleLog(file: string, text: string, options: ImportOptions): ImportResult {
+    const result: ImportResult = { events: [], rejected: [] };
+    const eventOf = new Map<string, WorldEventName>();
+    let time = options.at;
+    let timed = false;
+    let group = { waves: new Map<number, Soundwave>(), lines: [] as { line: number, text: string }[] };
+
+    text.split(/\r?\n/).forEach((content, i) => {
+        const line = i + 1;
+        const stamp = content.match(timestampPrefix);
+        if (stamp) {
+            const parsed = Date.parse(stamp[1]);
+            if (!isNaN(parsed)) {
+                time = parsed;
+                timed = true;
+            }
+        }
+
+        const match = content.match(observationLine);
+        if (!match) {
+            if (content.trim().length === 0) return;
+            const emitted = content.match(emittedLine);
+            if (emitted && worldEvents.some((e) => e.name === emitted[2])) {
+                eventOf.set(emitted[1], emitted[2] as WorldEventName);
+            }
+            collect(result, file, group, timed);
+            group = { waves: new Map(), lines: [] };
+            return;
+        }
+
+        const [, id, user, b, w] = match;
+        const bPosition = parseTriple(b);
+        const wPosition = parseTriple(w);
+        const reason = !bPosition || !wPosition ? "positions are not three numbers" : validateObservation(bPosition, wPosition, options.viewDistance);
+        if (reason) {
+            result.rejected.push({ file, line, text: content, reason });
+            return;
+        }
+
+        const listener = parseInt(id);
+        if (group.waves.has(listener)) {
+            collect(result, file, group, timed);
+            group = { waves: new Map(), lines: [] };
+        }
+        group.waves.set(listener, wave(eventOf.get(user) ?? options.event, user, bPosition!, wPosition!, time));
+        group.lines.push({ line, text: content });
+    });
+    collect(result, file, group, timed);
+    return result;
+}
+
+/**
+ * A dump of the positions one listener was sent, one `x,y,z` per line.
+ */
+export interface CoordinateDump {
+    file: string;
+    text: string;
+    listener: number;
+    username: string;
+    /** Where the listener was standing, the dump does not say. */
+    bPosition: Position;
+}
+
+/**
+ * Parses coordinate dumps of several listeners, line n of every dump is the same event.
+ */
+export function parseCoordinateDumps(dumps: CoordinateDump[], options: ImportOptions): ImportResult {
+    const result: ImportResult = { events: [], rejected: [] };
+    const lines = dumps.map((dump) => dump.text.split(/\r?\n/));
+    const length = Math.max(0, ...lines.map((l) => l.length));
+
+    for (let i = 0; i < length; i++) {
+        const waves = new Map<number, Soundwave>();
+        const used: { line: number, text: string }[] = [];
+        dumps.forEach((dump, d) => {
+            const content = lines[d][i];
+            if (content == null || content.trim().length === 0) return;
+            const wPosition = parseTriple(content);
+            const reason = !wPosition ? "not an x,y,z line" : validateObservation(dump.bPosition, wPosition, options.viewDistance);
+            if (reason) {
+                result.rejected.push({ file: dump.file, line: i + 1, text: content, reason });
+                return;
+            }
+            waves.set(dump.listener, wave(options.event, dump.username, dump.bPosition, wPosition!, options.at));
+            used.push({ line: i + 1, text: content });
+        });
+        collect(result, dumps.map((d) => d.file).join("+"), { waves, lines: used }, false);
+    }
+    return result;
+}
+
+/**
+ * A uuid derived from the server, the observations and their time (their lines when the data has no time),
+ * importing the same data twice yields the same uids and storage skips the second copy. A farm repeating
+ * the exact same observations still gets one spawn per repetition.
+ */
+export function importUid(server: string, imported: ImportedEvent): string {
+    const { event } = imported;
+    const observations = [...event.waves].map(([id, w]) => [id, w.bPosition.x, w.bPosition.z, w.wPosition.x, w.wPosition.z]);
+    const when = imported.timed ? event.openedAt : imported.lines;
+    const hash = createHash("sha1").update(JSON.stringify([server, event.event, when, observations])).digest("hex");
+    return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+}
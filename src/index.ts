@@ -1,12 +1,45 @@
-import Database from "./database";
+import "dotenv/config"
 import Foundry from "./Foundry";
 import Discord from "./discord";
-import "dotenv/config"
+import Journal from "./journal";
+import { loadLocations, loadServers } from "./config";
+import { createStorage } from "./storage";
+import Spool from "./storage/spool";
+import BaseTracker from "./bases";
+import LocationRegistry from "./locations";
+import SiteFusion from "./fusion";
+import { createCommands } from "./commands";
+import SubscriptionRegistry from "./subscriptions";
+import { createFeedbackHandler } from "./feedback";
+import { renderSpawnGraph } from "./drawing/draw";
 
 const discord = new Discord();
-const foundry = new Foundry();
-const database = new Database();
+const database = new Spool(createStorage(), process.env.spool_file ?? "./spool.jsonl");
+const bases = new BaseTracker(database);
+const locations = new LocationRegistry(database);
+const fusion = new SiteFusion(database);
+const subscriptions = new SubscriptionRegistry(database, locations);
+const configuredLocations = loadLocations();
+const journal = new Journal(process.env.journal ?? "./journal.jsonl");
+const foundries = loadServers().map((server) => new Foundry(server, { database, discord, journal, locations, renderGraph: renderSpawnGraph }));
 
+database.init();
+database.storageReady.then(async () => {
+    await locations.load(configuredLocations).catch((error) => console.error("Error loading known locations:", error));
+    await subscriptions.load().catch((error) => console.error("Error loading alert subscriptions:", error));
+    await bases.rebuild();
+});
+for (const foundry of foundries) {
+    foundry.on("resolved", ({ spawn }) => {
+        bases.add(spawn);
+        fusion.add(spawn);
+        subscriptions.notify(spawn, discord).catch((error) => console.error(`Error sending alerts for ${spawn.uid}:`, error));
+    });
+}
+discord.useCommands(createCommands({ storage: database, foundries, locations, subscriptions, backlog: () => database.backlog }));
+discord.useComponents([createFeedbackHandler(database)]);
 discord.start();
-foundry.initialize();
-export { foundry, database, discord }
+for (const foundry of foundries) {
+    foundry.initialize();
+}
+export { foundries, database, bases, locations, subscriptions, discord }
@@ -0,0 +1,87 @@
+import fs from "fs";
+import { Vec3 } from "vec3";
+import type { Position, Soundwave } from "./types";
+import { worldEvents } from "./worldEvents";
+
+/**
+ * A raw `world_event` packet as received by one listener.
+ */
+export interface RecordedPacket {
+    user: string;
+    receivedAt: number;
+    /** The bot's position at the time the packet arrived. */
+    bPosition: Position;
+    viewDistance: number;
+    /** Minecraft version and protocol number the bot connected with. */
+    version: string;
+    protocolVersion: number | string;
+    /** The packet payload exactly as minecraft-protocol decoded it. */
+    packet: any;
+}
+
+/**
+ * One line of the journal.
+ */
+export interface JournalEntry extends RecordedPacket {
+    /** Name of the server the listener is on. */
+    server: string;
+    /** Listener account id. */
+    listener: number;
+}
+
+/**
+ * Turns a recorded packet into a soundwave, or null when it is not a global world event we know.
+ * Both the live listeners and replays go through here.
+ */
+export function soundwaveFromPacket(record: RecordedPacket): Soundwave | null {
+    const effect = worldEvents.find((e) => e.id === record.packet.effectId);
+    if (!effect) return null;
+
+    const { x, y, z } = record.packet.location;
+    return {
+        event: effect.name,
+        user: record.user,
+        bPosition: new Vec3(record.bPosition.x, record.bPosition.y, record.bPosition.z),
+        wPosition: new Vec3(x, y, z),
+        receivedAt: record.receivedAt,
+    };
+}
+
+/**
+ * Append-only JSONL log of every `world_event` packet the fleet receives.
+ */
+export default class Journal {
+    private stream: fs.WriteStream;
+
+    constructor(public readonly file: string) {
+        this.stream = fs.createWriteStream(file, { flags: "a" });
+        this.stream.on("error", (error) => {
+            console.error(`Error writing journal ${file}:`, error);
+        });
+    }
+
+    public append(entry: JournalEntry): void {
+        this.stream.write(JSON.stringify(entry) + "\n");
+    }
+
+    public close(): Promise<void> {
+        return new Promise((resolve) => this.stream.end(resolve));
+    }
+
+    /**
+     * Reads a journal back, skipping (and reporting) lines that do not parse.
+     */
+    static read(file: string): JournalEntry[] {
+        const entries: JournalEntry[] = [];
+        const lines = fs.readFileSync(file, "utf8").split("\n");
+        lines.forEach((line, i) => {
+            if (line.trim().length === 0) return;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                console.warn(`Skipping malformed journal line ${i + 1} in ${file}.`);
+            }
+        });
+        return entries;
+    }
+}
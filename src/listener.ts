@@ -1,34 +1,88 @@
 import { createBot, BotOptions, Bot } from "mineflayer";
+import type { MicrosoftDeviceAuthorizationResponse } from "minecraft-protocol";
 import EventEmitter from "events";
 import { Vec3 } from "vec3";
-import type { Soundwave } from "./types";
+import type { ListenerAccount, ServerConfig, Soundwave } from "./types";
+import { RecordedPacket, soundwaveFromPacket } from "./journal";
+import { profilesDir } from "./config";
+import { driftFromPost, healthPolicy, ListenerHealth, normalizeDimension } from "./health";
 
-const effectIds = [
-  { id: 1023, name: "wither_spawned" },
-  { id: 1028, name: "ender_dragon_death" },
-  { id: 1038, name: "end_portal_opened" },
+export type KickReason = "ban" | "throttle" | "restart" | "full" | "other";
+
+export type ListenerStatus = "connecting" | "online" | "reconnecting" | "failed" | "stopped";
+
+/**
+ * Reconnect backoff, the delay doubles every failed attempt up to `maxDelay` and is jittered by ±50%.
+ */
+const reconnect = {
+  baseDelay: 5_000,
+  maxDelay: 5 * 60_000,
+  /** Kicked for reconnecting too fast, start the backoff higher. */
+  throttleDelay: 60_000,
+  /** The server is restarting, give it time to come back. */
+  restartDelay: 30_000,
+};
+
+const kickPatterns: { reason: KickReason, pattern: RegExp }[] = [
+  { reason: "ban", pattern: /banned|blacklisted/i },
+  { reason: "throttle", pattern: /throttl|too fast|too quickly|wait .* before/i },
+  { reason: "restart", pattern: /restart|shutting down|server closed|server is stopping/i },
+  { reason: "full", pattern: /server is full|full server|too many players/i },
 ];
 
-class Listener extends EventEmitter {
+/**
+ * Microsoft auth failures that retrying will not fix, with what the operator has to do about them.
+ */
+const authErrors: { pattern: RegExp, message: string }[] = [
+  { pattern: /does the account own minecraft/i, message: "the Microsoft account does not own Minecraft" },
+  { pattern: /expired_token|code expired/i, message: "the sign-in code expired before anyone used it, restart the listener to get a new one" },
+  { pattern: /authorization_declined/i, message: "the Microsoft sign-in was declined" },
+  { pattern: /invalid_grant|refresh token/i, message: `the cached Microsoft token was rejected, delete it from ${profilesDir} and sign in again` },
+];
+
+/**
+ * Classifies a kick message, which is usually a JSON chat component.
+ */
+export function classifyKick(reason: string): KickReason {
+  const text = typeof reason === "string" ? reason : JSON.stringify(reason);
+  return kickPatterns.find((k) => k.pattern.test(text))?.reason ?? "other";
+}
+
+/**
+ * Anything that hears world events for one fleet account, a live bot or a simulated one.
+ */
+export interface ListenerSource extends EventEmitter {
+  readonly account: ListenerAccount;
+  stop(): void;
+  health(): ListenerHealth;
+  on(event: "soundwave", listener: (wave: Soundwave) => void): this;
+  on(event: "packet", listener: (record: RecordedPacket) => void): this;
+  on(event: "ready", listener: () => void): this;
+  on(event: "disconnect", listener: (reason: string) => void): this;
+  on(event: "failed", listener: (reason: string) => void): this;
+  on(event: "authCode", listener: (data: MicrosoftDeviceAuthorizationResponse) => void): this;
+  on(event: "drift", listener: (drift: number) => void): this;
+}
+
+class Listener extends EventEmitter implements ListenerSource {
 
     public bot: Bot;
+    public readonly account: ListenerAccount;
+    public readonly server: ServerConfig;
+    public status: ListenerStatus = "connecting";
     private email: string;
+    /** Failed connection attempts since the last successful spawn. */
+    private attempts = 0;
+    private lastKick: KickReason | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private lastPacketAt: number | null = null;
     
-    constructor(email: string) {
+    constructor(account: ListenerAccount, server: ServerConfig) {
         super();
-        this.email = email;
+        this.account = account;
+        this.server = server;
+        this.email = account.username;
         this.bot = this.start();
-        this.bot.on("error", this.onError);
-        this.bot.on("kicked", this.onKick);
-        this.bot.on("end", this.onEnd);
-        this.bot.on("spawn", async () => { 
-            this.bot.chat("/kill")
-            this.bot.chat("/suicide")
-        });
-        this.bot._client.on("packet", this.onClientPacket);
-        this.bot.on("login", () => {
-            console.log(`${this.bot.username} has logged in.`)
-        });
     }
 
   // // Helper: projects raw sound vector from bot's center to the effective render edge.
@@ -51,55 +105,180 @@ class Listener extends EventEmitter {
 
     public start(): Bot {
         this.bot = createBot({
-            host: process.env.host,
-            port: Number(process.env.port),
+            host: this.server.host,
+            port: this.server.port,
             username: this.email,
-            // auth: "microsoft",
-            version: process.env.version,
-            viewDistance: 8,
+            auth: this.account.auth,
+            profilesFolder: profilesDir,
+            onMsaCode: this.onMsaCode,
+            version: this.server.version,
+            viewDistance: this.account.viewDistance,
             respawn: false
         });
         this.bot.on("soundEffectHeard", (soundName, position) => {
             console.log(position, soundName);
         });
+        this.bot.on("error", this.onError);
+        this.bot.on("kicked", this.onKick);
+        this.bot.on("end", this.onEnd);
+        this.bot.on("spawn", this.onSpawn);
+        this.bot.on("forcedMove", () => this.checkDrift("was teleported"));
+        this.bot._client.on("packet", this.onClientPacket);
+        this.bot.on("login", () => {
+            console.log(`${this.bot.username} has logged in.`)
+        });
         return this.bot;
     }
 
+    /**
+     * Disconnects for good, no reconnect will be attempted.
+     */
+    public stop(): void {
+        this.status = "stopped";
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.bot.quit();
+    }
+
+    public health(): ListenerHealth {
+        const connected = this.status === "online";
+        const entity = connected ? this.bot.entity : undefined;
+        const position = entity ? { x: entity.position.x, y: entity.position.y, z: entity.position.z } : null;
+        return {
+            id: this.account.id,
+            username: this.email,
+            status: this.status,
+            connected,
+            alive: connected && this.bot.health > 0,
+            dimension: connected && this.bot.game?.dimension ? normalizeDimension(this.bot.game.dimension) : null,
+            position,
+            drift: driftFromPost(this.account, position),
+            lastPacketAt: this.lastPacketAt,
+            ping: connected ? this.bot.player?.ping ?? null : null,
+        };
+    }
+
+    private scheduleReconnect(): void {
+        const base = this.lastKick === "throttle" ? reconnect.throttleDelay
+            : this.lastKick === "restart" ? reconnect.restartDelay
+            : reconnect.baseDelay;
+        const delay = Math.min(reconnect.maxDelay, base * 2 ** this.attempts) * (0.5 + Math.random());
+        this.attempts++;
+        this.status = "reconnecting";
+
+        console.log(`Reconnecting ${this.email} in ${Math.round(delay / 1000)}s (attempt ${this.attempts}).`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.lastKick = null;
+            this.status = "connecting";
+            this.start();
+        }, delay);
+    }
+
+    private fail(reason: string): void {
+        this.status = "failed";
+        console.error(`Giving up on ${this.email}: ${reason}`);
+        this.emit("failed", reason);
+    }
+
+  /**
+   * Warns when the bot is no longer where the fleet config placed it.
+   */
+  private checkDrift(why: string) {
+    const drift = driftFromPost(this.account, this.bot.entity.position);
+    if (drift != null && drift > healthPolicy.maxDrift) {
+      console.warn(`${this.email} ${why} ${Math.round(drift)} blocks away from its post.`);
+      this.emit("drift", drift);
+    }
+  }
+
   private onClientPacket = (data: any, meta: any) => {
+    this.lastPacketAt = Date.now();
     // if (meta.name === "sound_effect") {
     //   console.log(data, meta);
     // }
     if (meta.name === "world_event") {
-      const id = data.effectId;
-      const effect = effectIds.find((e) => e.id === id);
-      if (effect && effect.name === "wither_spawned") {
-        const { x, y, z } = data.location;
-        const wave: Soundwave = {
-          user: this.bot.username,
-          bPosition: this.bot.entity.position.clone(),
-          wPosition: new Vec3(x, y, z),
-        };
+      const record: RecordedPacket = {
+        user: this.bot.username,
+        receivedAt: Date.now(),
+        bPosition: this.bot.entity.position.clone(),
+        viewDistance: this.account.viewDistance,
+        version: this.bot.version,
+        protocolVersion: this.bot.protocolVersion,
+        packet: data,
+      };
+      this.emit("packet", record);
 
+      const wave = soundwaveFromPacket(record);
+      if (wave) {
         this.emit("soundwave", wave);
       }
     }
   };
 
+  private onSpawn = () => {
+    this.checkDrift("spawned");
+    this.bot.chat("/kill")
+    this.bot.chat("/suicide")
+
+    const wasReady = this.status === "online";
+    this.attempts = 0;
+    this.status = "online";
+    if (!wasReady) this.emit("ready");
+  };
+
+  private onMsaCode = (data: MicrosoftDeviceAuthorizationResponse) => {
+    console.log(`${this.email} needs to sign in: open ${data.verification_uri} and enter ${data.user_code}`);
+    this.emit("authCode", data);
+  };
+
   private onError = (err: Error) => {
     console.log(err, ` error in ${this.email}`);
+
+    const authError = authErrors.find((e) => e.pattern.test(err.message));
+    if (authError && this.status !== "failed") {
+      this.fail(authError.message);
+      this.bot.end();
+    }
   };
 
   private onKick = (reason: string) => {
-    console.log(reason, ` kicked in ${this.email}`);
+    this.lastKick = classifyKick(reason);
+    console.log(reason, ` kicked (${this.lastKick}) in ${this.email}`);
   };
-  private onEnd = () => {
-    console.log(`Disconnected from ${this.email}`);
+  private onEnd = (reason: string) => {
+    console.log(`Disconnected from ${this.email}: ${reason}`);
+    if (this.status === "stopped" || this.status === "failed") return;
+    this.emit("disconnect", reason);
+
+    if (this.lastKick === "ban") {
+      this.fail("banned from the server");
+      return;
+    }
+    this.scheduleReconnect();
   };
 }
 
 declare interface Listener {
   emit(event: "soundwave", wave: Soundwave): boolean;
+  emit(event: "packet", record: RecordedPacket): boolean;
+  emit(event: "ready"): boolean;
+  emit(event: "disconnect", reason: string): boolean;
+  emit(event: "failed", reason: string): boolean;
+  emit(event: "authCode", data: MicrosoftDeviceAuthorizationResponse): boolean;
+  emit(event: "drift", drift: number): boolean;
   on(event: "soundwave", listener: (wave: Soundwave) => void): this;
+  /** Every raw `world_event` packet, known effect or not. */
+  on(event: "packet", listener: (record: RecordedPacket) => void): this;
+  /** The bot (re)spawned and is listening. */
+  on(event: "ready", listener: () => void): this;
+  /** The connection ended, a reconnect is scheduled unless the failure is permanent. */
+  on(event: "disconnect", listener: (reason: string) => void): this;
+  /** Permanent failure, the listener will not reconnect. */
+  on(event: "failed", listener: (reason: string) => void): this;
+  /** A Microsoft account has no cached token, someone has to complete the device code sign-in. */
+  on(event: "authCode", listener: (data: MicrosoftDeviceAuthorizationResponse) => void): this;
+  /** The bot was found this many blocks away from its post. */
+  on(event: "drift", listener: (drift: number) => void): this;
 }
 
 export default Listener;
@@ -0,0 +1,105 @@
+import type { KnownLocation, SpawnRecord } from "./types";
+import type { SpawnStorage } from "./storage";
+import { polygonIntersectsCircle } from "./drawing/polygonUtils";
+
+/**
+ * Whether the spawn could have happened at the location: its error region, or without one its
+ * error radius around the estimate, overlaps the location's circle.
+ */
+export function spawnReaches(spawn: Pick<SpawnRecord, "x" | "z" | "errorRadius" | "region">, location: KnownLocation): boolean {
+    if (spawn.region) {
+        return polygonIntersectsCircle(spawn.region.polygon, location, location.radius);
+    }
+    return Math.hypot(spawn.x - location.x, spawn.z - location.z) <= location.radius + spawn.errorRadius;
+}
+
+/**
+ * The known location the spawn most likely belongs to, the one closest to the estimate when several overlap.
+ */
+export function matchLocation(spawn: SpawnRecord, locations: KnownLocation[]): KnownLocation | null {
+    const distance = (location: KnownLocation) => Math.hypot(spawn.x - location.x, spawn.z - location.z);
+    return locations
+        .filter((location) => (location.server == null || location.server === spawn.server) && spawnReaches(spawn, location))
+        .sort((a, b) => distance(a) - distance(b))[0] ?? null;
+}
+
+/** How long (ms) announcements wait for the count of today's spawns at a location. */
+const countTimeout = 2000;
+
+export function ordinal(n: number): string {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+    return `${n}${suffix}`;
+}
+
+/**
+ * The known locations, kept in storage and cached so matching a spawn does not wait for the database.
+ */
+export default class LocationRegistry {
+    private locations: KnownLocation[] = [];
+
+    constructor(private storage: SpawnStorage) {}
+
+    /**
+     * Saves the configured locations, see `loadLocations`, and reads every stored one.
+     */
+    async load(configured: KnownLocation[] = []): Promise<void> {
+        for (const location of configured) {
+            await this.storage.saveLocation(location);
+        }
+        this.locations = await this.storage.listLocations();
+        console.log(`Loaded ${this.locations.length} known locations.`);
+    }
+
+    public list(): KnownLocation[] {
+        return this.locations;
+    }
+
+    public get(name: string): KnownLocation | null {
+        return this.locations.find((location) => location.name === name) ?? null;
+    }
+
+    async save(location: KnownLocation): Promise<void> {
+        await this.storage.saveLocation(location);
+        this.locations = [...this.locations.filter((l) => l.name !== location.name), location];
+    }
+
+    async delete(name: string): Promise<void> {
+        await this.storage.deleteLocation(name);
+        this.locations = this.locations.filter((l) => l.name !== name);
+    }
+
+    public match(spawn: SpawnRecord): KnownLocation | null {
+        return matchLocation(spawn, this.locations);
+    }
+
+    /**
+     * How many spawns of this kind the location has had since midnight (UTC), the given one included whether
+     * or not it is stored yet. Null when storage cannot be read within `countTimeout`.
+     */
+    async spawnsToday(location: KnownLocation, spawn: SpawnRecord): Promise<number | null> {
+        const midnight = new Date(spawn.observedAt);
+        midnight.setUTCHours(0, 0, 0, 0);
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`no answer within ${countTimeout}ms`)), countTimeout);
+        });
+        try {
+            const earlier = await Promise.race([
+                this.storage.countSpawns({
+                    server: spawn.server,
+                    eventType: spawn.eventType,
+                    location: location.name,
+                    since: midnight.getTime(),
+                    until: spawn.observedAt,
+                }),
+                timeout,
+            ]);
+            return earlier + 1;
+        } catch (error) {
+            console.error(`Error counting spawns at ${location.name}:`, error);
+            return null;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
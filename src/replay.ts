@@ -0,0 +1,79 @@
+import "dotenv/config";
+import Foundry from "./Foundry";
+import Journal, { soundwaveFromPacket } from "./journal";
+import { parseSolverChain } from "./solver";
+import { defaultServerConfig } from "./config";
+import type { ListenerAccount } from "./types";
+
+/**
+ * Replays a packet journal through correlation and solving, no Minecraft connection, database or Discord involved.
+ *
+ *   npx ts-node src/replay.ts journal.jsonl [--solver residual,linear] [--window 2000]
+ */
+
+function parseArgs(argv: string[]): { file: string; solver?: string; window?: number } {
+    const args: { file?: string; solver?: string; window?: number } = {};
+    for (let i = 0; i < argv.length; i++) {
+        switch (argv[i]) {
+            case "--solver": args.solver = argv[++i]; break;
+            case "--window": args.window = parseInt(argv[++i]); break;
+            default: args.file = argv[i];
+        }
+    }
+    if (!args.file) {
+        console.error("Usage: replay <journal.jsonl> [--solver residual,linear] [--window ms]");
+        process.exit(1);
+    }
+    return args as { file: string; solver?: string; window?: number };
+}
+
+function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const entries = Journal.read(args.file).sort((a, b) => a.receivedAt - b.receivedAt);
+
+    // Every server gets its own foundry, its fleet is whoever shows up in the journal.
+    const fleets = new Map<string, Map<number, ListenerAccount>>();
+    for (const entry of entries) {
+        const fleet = fleets.get(entry.server) ?? new Map<number, ListenerAccount>();
+        fleets.set(entry.server, fleet);
+        if (!fleet.has(entry.listener)) {
+            fleet.set(entry.listener, { id: entry.listener, username: entry.user, auth: "offline", viewDistance: entry.viewDistance });
+        }
+    }
+
+    let resolved = 0;
+    const foundries = new Map<string, Foundry>();
+    for (const [name, fleet] of fleets) {
+        const defaults = defaultServerConfig([...fleet.values()]);
+        const foundry = new Foundry({
+            ...defaults,
+            name,
+            solvers: args.solver ? parseSolverChain(args.solver) : defaults.solvers,
+            correlationWindow: args.window ?? defaults.correlationWindow,
+        });
+
+        foundry.on("resolved", ({ event, solution }) => {
+            resolved++;
+            console.log(
+                `${new Date(event.openedAt).toISOString()} [${name}] ${event.event} x=${solution.x.toFixed(1)} z=${solution.z.toFixed(1)} ` +
+                `±${solution.errorRadius.toFixed(1)} [${solution.solver}, ${event.waves.size} listeners, ${solution.elapsed}ms]`
+            );
+        });
+        foundries.set(name, foundry);
+    }
+
+    let waves = 0;
+    for (const entry of entries) {
+        const wave = soundwaveFromPacket(entry);
+        if (!wave) continue;
+        waves++;
+        foundries.get(entry.server)!.ingest(entry.listener, wave);
+    }
+    for (const foundry of foundries.values()) {
+        foundry.flush();
+    }
+
+    console.log(`Replayed ${entries.length} packets (${waves} world events) from ${fleets.size} servers, resolved ${resolved} events.`);
+}
+
+main();
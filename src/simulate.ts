@@ -0,0 +1,101 @@
+import "dotenv/config";
+import Foundry from "./Foundry";
+import SimulatedListener, { RecordingAnnouncer, SimulatedBehaviour } from "./simulation";
+import MemoryStorage from "./storage/memory";
+import { generateExplosionLocation } from "./cracking/build_test_utils";
+import { parseSolverChain } from "./solver";
+import { defaultServerConfig } from "./config";
+import type { ListenerAccount } from "./types";
+import { pointInPolygon } from "./drawing/polygonUtils";
+
+/**
+ * Runs the whole pipeline (correlation, solving, database, Discord) against simulated listeners.
+ *
+ *   npx ts-node src/simulate.ts [--events 10] [--drop 0.1] [--jitter 0.5] [--delay 50] [--delay-jitter 200] [--solver linear] [--window 1000]
+ */
+
+const defaultFleet: ListenerAccount[] = [
+    { id: 1, username: "sim1", auth: "offline", target: { x: -80000, y: 64, z: -80000 }, viewDistance: 8 },
+    { id: 2, username: "sim2", auth: "offline", target: { x: 80000, y: 64, z: -80000 }, viewDistance: 8 },
+    { id: 3, username: "sim3", auth: "offline", target: { x: -80000, y: 64, z: 80000 }, viewDistance: 8 },
+    { id: 4, username: "sim4", auth: "offline", target: { x: 80000, y: 64, z: 80000 }, viewDistance: 8 },
+];
+
+function parseArgs(argv: string[]) {
+    const args = { events: 10, drop: 0, jitter: 0, delay: 0, delayJitter: 100, window: 1000, solver: undefined as string | undefined };
+    for (let i = 0; i < argv.length; i += 2) {
+        const [flag, value] = [argv[i], argv[i + 1]];
+        switch (flag) {
+            case "--events": args.events = parseInt(value); break;
+            case "--drop": args.drop = parseFloat(value); break;
+            case "--jitter": args.jitter = parseFloat(value); break;
+            case "--delay": args.delay = parseInt(value); break;
+            case "--delay-jitter": args.delayJitter = parseInt(value); break;
+            case "--window": args.window = parseInt(value); break;
+            case "--solver": args.solver = value; break;
+            default: throw new Error(`Unknown argument ${flag}`);
+        }
+    }
+    return args;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const behaviour: SimulatedBehaviour = { positionJitter: args.jitter, dropRate: args.drop, delay: args.delay, delayJitter: args.delayJitter };
+
+    const database = new MemoryStorage();
+    const discord = new RecordingAnnouncer();
+    const listeners: SimulatedListener[] = [];
+    const defaults = defaultServerConfig(defaultFleet);
+    const server = {
+        ...defaults,
+        name: "simulation",
+        solvers: args.solver ? parseSolverChain(args.solver) : defaults.solvers,
+        correlationWindow: args.window,
+    };
+    const foundry = new Foundry(server, {
+        database,
+        discord,
+        createListener: (account) => {
+            const listener = new SimulatedListener(account, behaviour);
+            listeners.push(listener);
+            return listener;
+        },
+    });
+
+    let actual = { x: 0, z: 0 };
+    const errors: { distance: number, errorRadius: number, inRegion: boolean }[] = [];
+    foundry.on("resolved", ({ solution, spawn }) => {
+        errors.push({
+            distance: Math.hypot(solution.x - actual.x, solution.z - actual.z),
+            errorRadius: solution.errorRadius,
+            inRegion: spawn.region != null && pointInPolygon(actual, spawn.region.polygon),
+        });
+    });
+
+    await foundry.initialize();
+
+    for (let i = 0; i < args.events; i++) {
+        actual = generateExplosionLocation(0, 60000);
+        for (const listener of listeners) {
+            listener.hear("wither_spawned", actual.x, actual.z);
+        }
+        // Let the window close before the next event so the run is deterministic in its grouping.
+        await sleep(args.window + args.delay + args.delayJitter + 100);
+    }
+    foundry.stop();
+
+    const distances = errors.map((e) => e.distance);
+    const covered = errors.filter((e) => e.distance <= e.errorRadius).length;
+    console.log(`Resolved ${errors.length}/${args.events} events.`);
+    if (errors.length > 0) {
+        console.log(`Mean error ${(distances.reduce((a, b) => a + b, 0) / distances.length).toFixed(1)} blocks, max ${Math.max(...distances).toFixed(1)} blocks.`);
+        console.log(`Actual location inside the error radius for ${covered}/${errors.length} events.`);
+        console.log(`Actual location inside the feasible region for ${errors.filter((e) => e.inRegion).length}/${errors.length} events.`);
+    }
+    console.log(`Database received ${await database.countSpawns()} spawns, Discord received ${discord.embeds.length} embeds and ${discord.messages.length} messages.`);
+}
+
+main();
@@ -0,0 +1,129 @@
+import EventEmitter from "events";
+import type { ListenerSource } from "./listener";
+import { RecordedPacket, soundwaveFromPacket } from "./journal";
+import { computeRelativeCoords } from "./cracking/build_test_utils";
+import type { Announcer, EmbedDetails, ListenerAccount, Position, Soundwave } from "./types";
+import { getWorldEvent, WorldEventName } from "./worldEvents";
+import { healthPolicy, ListenerHealth } from "./health";
+
+/**
+ * How a simulated listener misbehaves.
+ */
+export interface SimulatedBehaviour {
+    /** Max random offset (blocks) of the bot from its post, per axis. */
+    positionJitter: number;
+    /** Probability [0, 1] that the listener misses an event. */
+    dropRate: number;
+    /** Base delay (ms) between the event and the packet arriving. */
+    delay: number;
+    /** Max extra random delay (ms) on top of `delay`. */
+    delayJitter: number;
+}
+
+export const perfectBehaviour: SimulatedBehaviour = { positionJitter: 0, dropRate: 0, delay: 0, delayJitter: 0 };
+
+/**
+ * A listener without a Minecraft connection. It stands at its account's target and produces the
+ * `world_event` packets a real bot would receive, using the same math as the server (see `computeRelativeCoords`).
+ */
+class SimulatedListener extends EventEmitter implements ListenerSource {
+    public readonly account: ListenerAccount;
+    private behaviour: SimulatedBehaviour;
+    private post: Position;
+    private stopped = false;
+    private lastPacketAt: number | null = null;
+    private timers = new Set<NodeJS.Timeout>();
+
+    constructor(account: ListenerAccount, behaviour: SimulatedBehaviour = perfectBehaviour) {
+        super();
+        if (!account.target) {
+            throw new Error(`Simulated listener ${account.id} needs a target position.`);
+        }
+        this.account = account;
+        this.post = account.target;
+        this.behaviour = behaviour;
+        setImmediate(() => this.emit("ready"));
+    }
+
+    /**
+     * Lets this listener hear an event at the given location.
+     */
+    public hear(event: WorldEventName, x: number, z: number): void {
+        if (this.stopped || Math.random() < this.behaviour.dropRate) return;
+
+        const jitter = () => (Math.random() * 2 - 1) * this.behaviour.positionJitter;
+        const bPosition = { x: this.post.x + jitter(), y: this.post.y, z: this.post.z + jitter() };
+        // The server clamps global events to the view distance in blocks.
+        const { relX, relZ } = computeRelativeCoords(x, z, bPosition.x, bPosition.z, this.account.viewDistance * 16);
+        const delay = this.behaviour.delay + Math.random() * this.behaviour.delayJitter;
+
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            this.lastPacketAt = Date.now();
+            const record: RecordedPacket = {
+                user: this.account.username,
+                receivedAt: Date.now(),
+                bPosition,
+                viewDistance: this.account.viewDistance,
+                version: "simulated",
+                protocolVersion: 0,
+                packet: { effectId: getWorldEvent(event).id, location: { x: relX, y: bPosition.y, z: relZ }, data: 0, global: true },
+            };
+            this.emit("packet", record);
+
+            const wave = soundwaveFromPacket(record);
+            if (wave) this.emit("soundwave", wave);
+        }, delay);
+        this.timers.add(timer);
+    }
+
+    public health(): ListenerHealth {
+        return {
+            id: this.account.id,
+            username: this.account.username,
+            status: this.stopped ? "stopped" : "online",
+            connected: !this.stopped,
+            alive: true,
+            dimension: healthPolicy.dimension,
+            position: this.post,
+            drift: 0,
+            lastPacketAt: this.lastPacketAt,
+            ping: this.behaviour.delay,
+        };
+    }
+
+    public stop(): void {
+        this.stopped = true;
+        for (const timer of this.timers) clearTimeout(timer);
+        this.timers.clear();
+    }
+}
+
+declare interface SimulatedListener {
+    emit(event: "soundwave", wave: Soundwave): boolean;
+    emit(event: "packet", record: RecordedPacket): boolean;
+    emit(event: "ready"): boolean;
+}
+
+export default SimulatedListener;
+
+/**
+ * Stand-in for Discord, records what would have been sent.
+ */
+export class RecordingAnnouncer implements Announcer {
+    public messages: { channelId: string, message: string }[] = [];
+    public directMessages: { userId: string, message: string }[] = [];
+    public embeds: { channelId: string, title: string, coordinates: Omit<Position, "y"> & { y?: number }, serverName: string, details: EmbedDetails }[] = [];
+
+    async sendMessageToChannel(channelId: string, message: string): Promise<void> {
+        this.messages.push({ channelId, message });
+    }
+
+    async sendDirectMessage(userId: string, message: string): Promise<void> {
+        this.directMessages.push({ userId, message });
+    }
+
+    async sendCoordinatesEmbed(channelId: string, color: string, coordinates: Omit<Position, "y"> & { y?: number }, title: string, serverName: string, details: EmbedDetails = {}): Promise<void> {
+        this.embeds.push({ channelId, title, coordinates, serverName, details });
+    }
+}
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { solve } from "./solver";
+import { computeRelativeCoords } from "./cracking/build_test_utils";
+import { describeErrorRegion, pointInPolygon } from "./drawing/polygonUtils";
+import type { Observation } from "./drawing/polygonUtils";
+
+/** A spawn at negative coordinates heard by listeners far away, where truncation toward zero matters. */
+const spawn = { x: -1200.5, z: -3400.5 };
+const listeners = [
+    { x: -81000.3, z: -9000.7 },
+    { x: -7000.2, z: -83000.6 },
+    { x: -79000.4, z: -60000.1 },
+];
+
+function observe(count: number): Observation[] {
+    return listeners.slice(0, count).map((l) => ({
+        playerX: l.x,
+        playerZ: l.z,
+        ...computeRelativeCoords(spawn.x, spawn.z, l.x, l.z, 64),
+    }));
+}
+
+for (const solver of ["linear", "residual"]) {
+    for (const count of [2, 3]) {
+        test(`${solver} estimate from ${count} listeners lies inside the error region`, () => {
+            const observations = observe(count);
+            const solution = solve(observations, [solver]);
+            const region = describeErrorRegion(observations);
+            assert.ok(solution);
+            assert.ok(region);
+            assert.ok(pointInPolygon(solution, region.polygon), `${solution.x}, ${solution.z} is outside the region`);
+        });
+    }
+}
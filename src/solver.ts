@@ -0,0 +1,141 @@
+import SoundWaveForge from "./theForge";
+import type { Soundwave } from "./types";
+import {
+    Observation,
+    triangulateEvent,
+    triangulateEventByResidual,
+    triangulateEventCovariance,
+    triangulateEventLinear,
+    triangulateEventOptimizedSA,
+} from "./cracking/triangulation";
+import { cellOrigin } from "./drawing/polygonUtils";
+
+type Offset = { dx: number; dz: number };
+
+/**
+ * The output of a successful solve.
+ */
+export interface Solution {
+    /** Name of the solver that produced this solution. */
+    solver: string;
+    x: number;
+    z: number;
+    errorRadius: number;
+    /** Offsets from each reported position to the point the solver used, in the order the observations were given. */
+    offsets: Offset[];
+    /** Time spent in the solver, in ms. */
+    elapsed: number;
+}
+
+type SolverFn = (observations: Observation[]) => { estimatedX: number; estimatedZ: number; errorRadius: number; offsets?: Offset[] } | null;
+
+/**
+ * The residual search enumerates (steps + 1)^(2n) offset combinations, past this it takes minutes.
+ */
+const maxResidualObservations = 4;
+
+/**
+ * All solvers selectable through the `solver` env var.
+ */
+const solvers: Record<string, SolverFn> = {
+    linear: triangulateEventLinear,
+    residual: (observations) => {
+        if (observations.length > maxResidualObservations) {
+            throw new Error(`residual search is limited to ${maxResidualObservations} observations, got ${observations.length}`);
+        }
+        return triangulateEventByResidual(observations);
+    },
+    sa: (observations) => triangulateEventOptimizedSA(observations),
+    covariance: (observations) => triangulateEventCovariance(observations),
+    corners: triangulateEvent,
+    // The original two-line intersection, kept around for comparison.
+    forge: (observations) => {
+        const [a, b] = observations;
+        const pos = SoundWaveForge.calculateAccurateWitherSpawn(
+            { x: a.playerX, y: 0, z: a.playerZ }, { x: a.relX, y: 0, z: a.relZ },
+            { x: b.playerX, y: 0, z: b.playerZ }, { x: b.relX, y: 0, z: b.relZ },
+            8
+        );
+        return pos && { estimatedX: pos.x, estimatedZ: pos.z, errorRadius: pos.error };
+    },
+};
+
+/**
+ * Converts soundwaves into the observations the triangulation code works with.
+ */
+export function toObservations(waves: Soundwave[]): Observation[] {
+    return waves.map((wave) => ({
+        playerX: wave.bPosition.x,
+        playerZ: wave.bPosition.z,
+        relX: wave.wPosition.x,
+        relZ: wave.wPosition.z,
+    }));
+}
+
+/**
+ * Parses a comma separated solver chain such as `residual,linear`.
+ */
+export function parseSolverChain(spec: string): string[] {
+    const chain = spec.split(",").map((name) => name.trim()).filter((name) => name.length > 0);
+    if (chain.length === 0) {
+        throw new Error("The solver chain is empty.");
+    }
+    for (const name of chain) {
+        if (!(name in solvers)) {
+            throw new Error(`Unknown solver "${name}", expected one of: ${Object.keys(solvers).join(", ")}.`);
+        }
+    }
+    return chain;
+}
+
+/**
+ * Distance (blocks) from an estimate to the line through the observer and its reported position shifted by
+ * the offset, the same residual the residual solver minimises.
+ */
+export function observationResidual(observation: Observation, offset: Offset, x: number, z: number): number {
+    const dx = observation.relX + offset.dx - observation.playerX;
+    const dz = observation.relZ + offset.dz - observation.playerZ;
+    const length = Math.hypot(dx, dz);
+    if (length === 0) return Math.hypot(x - observation.playerX, z - observation.playerZ);
+    return Math.abs((x - observation.playerX) * dz - (z - observation.playerZ) * dx) / length;
+}
+
+/**
+ * Runs the solvers of the chain in order and returns the first usable solution.
+ * A solver that throws, gives up, or returns a non finite estimate or error radius falls through to the next one.
+ */
+export function solve(observations: Observation[], chain: string[]): Solution | null {
+    if (observations.length < 2) return null;
+
+    // The solvers assume the true coordinate is in [rel, rel + 1), give them the cell the server's truncation implies
+    const cells = observations.map((o) => ({ ...o, relX: cellOrigin(o.relX), relZ: cellOrigin(o.relZ) }));
+
+    for (const name of chain) {
+        const started = Date.now();
+        try {
+            const result = solvers[name](cells);
+            const elapsed = Date.now() - started;
+
+            if (!result || ![result.estimatedX, result.estimatedZ, result.errorRadius].every(Number.isFinite)) {
+                console.warn(`Solver ${name} found no solution, falling back.`);
+                continue;
+            }
+
+            return {
+                solver: name,
+                x: result.estimatedX,
+                z: result.estimatedZ,
+                errorRadius: result.errorRadius,
+                offsets: (result.offsets ?? cells.map(() => ({ dx: 0.5, dz: 0.5 }))).map((offset, i) => ({
+                    dx: offset.dx + cells[i].relX - observations[i].relX,
+                    dz: offset.dz + cells[i].relZ - observations[i].relZ,
+                })),
+                elapsed,
+            };
+        } catch (error) {
+            console.warn(`Solver ${name} failed, falling back:`, error);
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,40 @@
+import { randomUUID } from "crypto";
+import type { ListenerAccount, SpawnRecord } from "./types";
+import type { CorrelatedEvent } from "./correlator";
+import { Solution, toObservations } from "./solver";
+import { describeErrorRegion } from "./drawing/polygonUtils";
+
+/**
+ * Solvers only work in the xz-plane.
+ */
+const spawnY = 64;
+
+/**
+ * What gets logged for a solved event. Offsets are matched to the waves by their order, which is the order
+ * the waves were handed to the solver. Imports pass a uid derived from the data so importing twice is harmless.
+ */
+export function toSpawnRecord(server: string, event: CorrelatedEvent, solution: Solution, fleet: ListenerAccount[], uid: string = randomUUID()): SpawnRecord {
+    return {
+        uid,
+        server,
+        eventType: event.event,
+        x: solution.x,
+        y: spawnY,
+        z: solution.z,
+        solver: solution.solver,
+        errorRadius: solution.errorRadius,
+        solveMs: solution.elapsed,
+        observedAt: event.openedAt,
+        region: describeErrorRegion(toObservations([...event.waves.values()])),
+        location: null,
+        observations: [...event.waves].map(([acc, wave], i) => ({
+            listener: acc,
+            username: wave.user,
+            bPosition: { x: wave.bPosition.x, y: wave.bPosition.y, z: wave.bPosition.z },
+            wPosition: { x: wave.wPosition.x, y: wave.wPosition.y, z: wave.wPosition.z },
+            offset: solution.offsets[i],
+            viewDistance: fleet.find((a) => a.id === acc)?.viewDistance ?? 0,
+            receivedAt: wave.receivedAt,
+        })),
+    };
+}
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import FileStorage from "./file";
+import type { Subscription } from "../types";
+
+function subscription(name: string): Omit<Subscription, "id"> {
+    return {
+        owner: "1",
+        name,
+        channel: null,
+        server: null,
+        eventTypes: [],
+        fence: { kind: "circle", x: 0, z: 0, radius: 100 },
+        createdAt: 0,
+    };
+}
+
+test("ids of deleted rows are not reused after compaction", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "file-storage-"));
+    const file = path.join(dir, "storage.jsonl");
+    try {
+        const first = new FileStorage(file);
+        await first.init();
+        await first.addSubscription(subscription("a"));
+        const last = await first.addSubscription(subscription("b"));
+        await first.deleteSubscription(last.id);
+
+        // init() compacts, the deleted row is gone from the file
+        const second = new FileStorage(file);
+        await second.init();
+        const third = new FileStorage(file);
+        await third.init();
+        const added = await third.addSubscription(subscription("c"));
+        assert.equal(added.id, last.id + 1);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,75 @@
+import fs from "fs";
+import MemoryStorage from "./memory";
+
+/**
+ * One line of the storage file, either a row (insert or update), the deletion of one,
+ * or the highest id a table has had so compaction does not free the ids of deleted rows.
+ */
+type FileOp = { table: string, row: { id: number } } | { table: string, delete: number } | { table: string, maxId: number };
+
+/**
+ * Embedded storage: the memory backend, with every change appended to a JSONL file.
+ * The file is replayed and compacted on init.
+ */
+export default class FileStorage extends MemoryStorage {
+    private ready = false;
+
+    constructor(private file: string) {
+        super();
+    }
+
+    async init(): Promise<void> {
+        if (fs.existsSync(this.file)) {
+            const lines = fs.readFileSync(this.file, "utf8").split("\n");
+            lines.forEach((line, i) => {
+                if (line.trim().length === 0) return;
+                try {
+                    const op: FileOp = JSON.parse(line);
+                    if ("delete" in op) super.remove(op.table, op.delete);
+                    else if ("maxId" in op) this.maxIds.set(op.table, Math.max(op.maxId, this.maxIds.get(op.table) ?? 0));
+                    else super.put(op.table, op.row);
+                } catch {
+                    // A crash mid-write leaves a truncated last line, anything before it is intact.
+                    console.warn(`Skipping malformed line ${i + 1} in ${this.file}.`);
+                }
+            });
+        }
+        this.compact();
+        this.ready = true;
+    }
+
+    /**
+     * Rewrites the file with only the current rows and the highest id of each table.
+     */
+    private compact(): void {
+        const lines: string[] = [];
+        for (const [table, maxId] of this.maxIds) {
+            lines.push(JSON.stringify({ table, maxId }));
+        }
+        for (const [table, rows] of this.tables) {
+            for (const row of rows.values()) {
+                lines.push(JSON.stringify({ table, row }));
+            }
+        }
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, lines.map((line) => line + "\n").join(""));
+        fs.renameSync(tmp, this.file);
+    }
+
+    private append(op: FileOp): void {
+        if (!this.ready) {
+            throw new Error(`FileStorage ${this.file} used before init().`);
+        }
+        fs.appendFileSync(this.file, JSON.stringify(op) + "\n");
+    }
+
+    protected put(table: string, row: { id: number }): void {
+        this.append({ table, row });
+        super.put(table, row);
+    }
+
+    protected remove(table: string, id: number): void {
+        this.append({ table, delete: id });
+        super.remove(table, id);
+    }
+}
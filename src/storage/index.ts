@@ -0,0 +1,60 @@
+import type { Base, KnownLocation, SiteEstimate, SpawnLog, SpawnQuery, SpawnLabel, SpawnRecord, StoredSpawn, Subscription } from "../types";
+import MysqlStorage from "./mysql";
+import MemoryStorage from "./memory";
+import FileStorage from "./file";
+
+/**
+ * Everything the rest of the code needs from storage. Implemented by MySQL (production),
+ * an embedded JSONL file (small deployments) and memory (tests, simulations and replays).
+ */
+export interface SpawnStorage extends SpawnLog {
+    /** Prepares the backend, e.g. runs migrations. */
+    init(): Promise<void>;
+    /** Stores a spawn, ignored when its uid is already stored. Throws when the backend is unavailable. */
+    logSpawn(spawn: SpawnRecord): Promise<void>;
+    /** Spawns matching the query, newest first. */
+    findSpawns(query?: SpawnQuery): Promise<StoredSpawn[]>;
+    /** Number of spawns matching the query, ignoring its pagination. */
+    countSpawns(query?: SpawnQuery): Promise<number>;
+    /** The spawns closest to a coordinate that match the query, nearest first. */
+    nearestSpawns(x: number, z: number, n: number, query?: SpawnQuery): Promise<StoredSpawn[]>;
+    getSpawn(uid: string): Promise<StoredSpawn | null>;
+    /** Bases of one server, or of all servers. */
+    listBases(server?: string): Promise<Base[]>;
+    getBase(name: string): Promise<Base | null>;
+    /** Inserts the base, or replaces the one with the same name. */
+    saveBase(base: Base): Promise<void>;
+    deleteBase(name: string): Promise<void>;
+    listLocations(): Promise<KnownLocation[]>;
+    /** Inserts the location, or replaces the one with the same name. */
+    saveLocation(location: KnownLocation): Promise<void>;
+    deleteLocation(name: string): Promise<void>;
+    /** Site estimates of one location (one per server), or of all locations. */
+    listSiteEstimates(location?: string): Promise<SiteEstimate[]>;
+    /** Inserts the estimate, or replaces the one of the same location and server. */
+    saveSiteEstimate(estimate: SiteEstimate): Promise<void>;
+    listSubscriptions(): Promise<Subscription[]>;
+    /** Stores a new subscription and returns it with its id. */
+    addSubscription(subscription: Omit<Subscription, "id">): Promise<Subscription>;
+    deleteSubscription(id: number): Promise<void>;
+    /** Labels are kept as given, a spawn can have several. */
+    addLabel(label: SpawnLabel): Promise<void>;
+    /** Labels of one spawn, or of all spawns, oldest first. */
+    listLabels(spawnUid?: string): Promise<SpawnLabel[]>;
+    close(): Promise<void>;
+}
+
+export type StorageKind = "mysql" | "file" | "memory";
+
+/**
+ * Creates the backend selected by the `storage` env var (mysql by default),
+ * the file backend writes to `storage_file`.
+ */
+export function createStorage(kind: string = process.env.storage ?? "mysql"): SpawnStorage {
+    switch (kind) {
+        case "mysql": return new MysqlStorage();
+        case "file": return new FileStorage(process.env.storage_file ?? "./spawns.jsonl");
+        case "memory": return new MemoryStorage();
+        default: throw new Error(`Unknown storage "${kind}", expected mysql, file or memory.`);
+    }
+}
@@ -0,0 +1,179 @@
+import type { Base, KnownLocation, ObservationRecord, SiteEstimate, SpawnQuery, SpawnLabel, SpawnRecord, StoredSpawn, Subscription } from "../types";
+import type { SpawnStorage } from "./index";
+import { matchesSpawnQuery, pageOf } from "./query";
+
+export type StoredObservation = ObservationRecord & { id: number, spawnId: number };
+
+/**
+ * Keeps everything in memory, organised as tables of rows keyed by id.
+ * Every change goes through `put`/`remove` so subclasses can persist them.
+ */
+export default class MemoryStorage implements SpawnStorage {
+    protected tables = new Map<string, Map<number, any>>();
+    /** Highest id each table has had, deleting rows does not free their ids. */
+    protected maxIds = new Map<string, number>();
+
+    async init(): Promise<void> {}
+
+    protected table<T>(name: string): Map<number, T> {
+        let table = this.tables.get(name);
+        if (!table) {
+            table = new Map();
+            this.tables.set(name, table);
+        }
+        return table;
+    }
+
+    protected insert<T extends { id: number }>(name: string, row: Omit<T, "id">): T {
+        const id = (this.maxIds.get(name) ?? 0) + 1;
+        const inserted = { ...row, id } as T;
+        this.put(name, inserted);
+        return inserted;
+    }
+
+    protected put(name: string, row: { id: number }): void {
+        this.table(name).set(row.id, row);
+        if (row.id > (this.maxIds.get(name) ?? 0)) this.maxIds.set(name, row.id);
+    }
+
+    protected remove(name: string, id: number): void {
+        this.table(name).delete(id);
+    }
+
+    async logSpawn(spawn: SpawnRecord): Promise<void> {
+        if (this.spawnRows().some((s) => s.uid === spawn.uid)) return;
+
+        const stored = this.insert<StoredSpawn>("spawns", {
+            uid: spawn.uid,
+            server: spawn.server,
+            eventType: spawn.eventType,
+            x: spawn.x,
+            y: spawn.y,
+            z: spawn.z,
+            solver: spawn.solver,
+            errorRadius: spawn.errorRadius,
+            observedAt: spawn.observedAt,
+            region: spawn.region,
+            location: spawn.location,
+        });
+        for (const obs of spawn.observations) {
+            this.insert<StoredObservation>("observations", { ...obs, spawnId: stored.id });
+        }
+    }
+
+    protected spawnRows(): StoredSpawn[] {
+        return [...this.table<StoredSpawn>("spawns").values()];
+    }
+
+    async findSpawns(query: SpawnQuery = {}): Promise<StoredSpawn[]> {
+        const { limit, offset } = pageOf(query);
+        return this.spawnRows()
+            .filter((s) => matchesSpawnQuery(s, query))
+            .sort((a, b) => b.observedAt - a.observedAt || b.id - a.id)
+            .slice(offset, offset + limit);
+    }
+
+    async countSpawns(query: SpawnQuery = {}): Promise<number> {
+        return this.spawnRows().filter((s) => matchesSpawnQuery(s, query)).length;
+    }
+
+    async nearestSpawns(x: number, z: number, n: number, query: SpawnQuery = {}): Promise<StoredSpawn[]> {
+        const { limit, offset } = pageOf({ ...query, limit: n });
+        const distance = (s: StoredSpawn) => (s.x - x) ** 2 + (s.z - z) ** 2;
+        return this.spawnRows()
+            .filter((s) => matchesSpawnQuery(s, query))
+            .sort((a, b) => distance(a) - distance(b))
+            .slice(offset, offset + limit);
+    }
+
+    async getSpawn(uid: string): Promise<StoredSpawn | null> {
+        return this.spawnRows().find((s) => s.uid === uid) ?? null;
+    }
+
+    private baseRow(name: string): (Base & { id: number }) | undefined {
+        return [...this.table<Base & { id: number }>("bases").values()].find((b) => b.name === name);
+    }
+
+    async listBases(server?: string): Promise<Base[]> {
+        return [...this.table<Base & { id: number }>("bases").values()]
+            .filter((b) => server == null || b.server === server)
+            .map(({ id, ...base }) => base);
+    }
+
+    async getBase(name: string): Promise<Base | null> {
+        const row = this.baseRow(name);
+        if (!row) return null;
+        const { id, ...base } = row;
+        return base;
+    }
+
+    async saveBase(base: Base): Promise<void> {
+        const row = this.baseRow(base.name);
+        if (row) this.put("bases", { ...base, id: row.id });
+        else this.insert("bases", base);
+    }
+
+    async deleteBase(name: string): Promise<void> {
+        const row = this.baseRow(name);
+        if (row) this.remove("bases", row.id);
+    }
+
+    private locationRow(name: string): (KnownLocation & { id: number }) | undefined {
+        return [...this.table<KnownLocation & { id: number }>("locations").values()].find((l) => l.name === name);
+    }
+
+    async listLocations(): Promise<KnownLocation[]> {
+        return [...this.table<KnownLocation & { id: number }>("locations").values()]
+            .map(({ id, ...location }) => location)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async saveLocation(location: KnownLocation): Promise<void> {
+        const row = this.locationRow(location.name);
+        if (row) this.put("locations", { ...location, id: row.id });
+        else this.insert("locations", location);
+    }
+
+    async deleteLocation(name: string): Promise<void> {
+        const row = this.locationRow(name);
+        if (row) this.remove("locations", row.id);
+    }
+
+    async listSiteEstimates(location?: string): Promise<SiteEstimate[]> {
+        return [...this.table<SiteEstimate & { id: number }>("sites").values()]
+            .filter((e) => location == null || e.location === location)
+            .map(({ id, ...estimate }) => estimate);
+    }
+
+    async saveSiteEstimate(estimate: SiteEstimate): Promise<void> {
+        const row = [...this.table<SiteEstimate & { id: number }>("sites").values()]
+            .find((e) => e.location === estimate.location && e.server === estimate.server);
+        if (row) this.put("sites", { ...estimate, id: row.id });
+        else this.insert("sites", estimate);
+    }
+
+    async listSubscriptions(): Promise<Subscription[]> {
+        return [...this.table<Subscription>("subscriptions").values()].sort((a, b) => a.id - b.id);
+    }
+
+    async addSubscription(subscription: Omit<Subscription, "id">): Promise<Subscription> {
+        return this.insert<Subscription>("subscriptions", subscription);
+    }
+
+    async deleteSubscription(id: number): Promise<void> {
+        this.remove("subscriptions", id);
+    }
+
+    async addLabel(label: SpawnLabel): Promise<void> {
+        this.insert<SpawnLabel & { id: number }>("labels", label);
+    }
+
+    async listLabels(spawnUid?: string): Promise<SpawnLabel[]> {
+        return [...this.table<SpawnLabel & { id: number }>("labels").values()]
+            .filter((l) => spawnUid == null || l.spawnUid === spawnUid)
+            .sort((a, b) => a.id - b.id)
+            .map(({ id, ...label }) => label);
+    }
+
+    async close(): Promise<void> {}
+}
@@ -0,0 +1,222 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+
+/**
+ * A schema change, applied once and recorded in `schema_migrations`.
+ * Migrations are append-only: never edit one that has shipped, add a new one instead.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: (conn: PoolConnection) => Promise<void>;
+}
+
+async function hasColumn(conn: PoolConnection, table: string, column: string): Promise<boolean> {
+    const [rows] = await conn.query<RowDataPacket[]>(
+        `SELECT 1 FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+        [table, column]
+    );
+    return rows.length > 0;
+}
+
+/**
+ * Databases created before migrations existed already have some of these columns.
+ */
+async function addColumnIfMissing(conn: PoolConnection, table: string, column: string, definition: string): Promise<void> {
+    if (!(await hasColumn(conn, table, column))) {
+        await conn.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        name: "wither_logs",
+        up: async (conn) => {
+            await conn.query(`
+                CREATE TABLE IF NOT EXISTS wither_logs (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    mc_server VARCHAR(64),
+                    x DOUBLE NOT NULL,
+                    y DOUBLE NOT NULL,
+                    z DOUBLE NOT NULL
+                )
+            `);
+            await addColumnIfMissing(conn, "wither_logs", "created_at", "TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP");
+        },
+    },
+    {
+        version: 2,
+        name: "event_type",
+        up: (conn) => addColumnIfMissing(conn, "wither_logs", "event_type", "VARCHAR(32) NOT NULL DEFAULT 'wither_spawned'"),
+    },
+    {
+        version: 3,
+        name: "spawn_observations",
+        up: async (conn) => {
+            await conn.query(`
+                ALTER TABLE wither_logs
+                    ADD COLUMN uid CHAR(36) NULL UNIQUE,
+                    ADD COLUMN solver VARCHAR(32) NULL,
+                    ADD COLUMN error_radius DOUBLE NULL,
+                    ADD COLUMN solve_ms INT NULL
+            `);
+            await conn.query(`
+                CREATE TABLE spawn_observations (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    spawn_id INT NOT NULL,
+                    listener_id INT NOT NULL,
+                    username VARCHAR(64) NOT NULL,
+                    bot_x DOUBLE NOT NULL,
+                    bot_y DOUBLE NOT NULL,
+                    bot_z DOUBLE NOT NULL,
+                    rel_x INT NOT NULL,
+                    rel_y INT NOT NULL,
+                    rel_z INT NOT NULL,
+                    offset_dx DOUBLE NULL,
+                    offset_dz DOUBLE NULL,
+                    view_distance INT NOT NULL,
+                    received_at DATETIME(3) NOT NULL,
+                    INDEX (spawn_id)
+                )
+            `);
+        },
+    },
+    {
+        version: 4,
+        name: "spawn_regions",
+        up: (conn) => conn.query(`
+            ALTER TABLE wither_logs
+                ADD COLUMN region JSON NULL,
+                ADD COLUMN region_area DOUBLE NULL,
+                ADD COLUMN region_cx DOUBLE NULL,
+                ADD COLUMN region_cz DOUBLE NULL,
+                ADD COLUMN region_diameter DOUBLE NULL
+        `).then(() => undefined),
+    },
+    {
+        version: 5,
+        name: "spawn_query_indexes",
+        up: (conn) => conn.query(`
+            ALTER TABLE wither_logs
+                ADD INDEX idx_created_at (created_at),
+                ADD INDEX idx_server_event_created (mc_server, event_type, created_at),
+                ADD INDEX idx_xz (x, z)
+        `).then(() => undefined),
+    },
+    {
+        version: 6,
+        name: "bases",
+        up: (conn) => conn.query(`
+            CREATE TABLE bases (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                name VARCHAR(64) NOT NULL UNIQUE,
+                mc_server VARCHAR(64) NOT NULL,
+                cx DOUBLE NOT NULL,
+                cz DOUBLE NOT NULL,
+                min_x DOUBLE NOT NULL,
+                max_x DOUBLE NOT NULL,
+                min_z DOUBLE NOT NULL,
+                max_z DOUBLE NOT NULL,
+                spawn_count INT NOT NULL,
+                first_seen DATETIME(3) NOT NULL,
+                last_seen DATETIME(3) NOT NULL,
+                activity JSON NOT NULL,
+                updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                INDEX (mc_server)
+            )
+        `).then(() => undefined),
+    },
+    {
+        version: 7,
+        name: "known_locations",
+        up: async (conn) => {
+            await conn.query(`
+                CREATE TABLE known_locations (
+                    id INT AUTO_INCREMENT PRIMARY KEY,
+                    name VARCHAR(64) NOT NULL UNIQUE,
+                    mc_server VARCHAR(64) NULL,
+                    x DOUBLE NOT NULL,
+                    z DOUBLE NOT NULL,
+                    radius DOUBLE NOT NULL,
+                    tags JSON NOT NULL
+                )
+            `);
+            await conn.query(`
+                ALTER TABLE wither_logs
+                    ADD COLUMN location VARCHAR(64) NULL,
+                    ADD INDEX idx_location_created (location, created_at)
+            `);
+        },
+    },
+    {
+        version: 8,
+        name: "site_estimates",
+        up: (conn) => conn.query(`
+            CREATE TABLE site_estimates (
+                location VARCHAR(64) NOT NULL,
+                mc_server VARCHAR(64) NOT NULL,
+                region JSON NOT NULL,
+                region_area DOUBLE NOT NULL,
+                region_cx DOUBLE NOT NULL,
+                region_cz DOUBLE NOT NULL,
+                region_diameter DOUBLE NOT NULL,
+                spawn_count INT NOT NULL,
+                rejected INT NOT NULL,
+                updated_at DATETIME(3) NOT NULL,
+                PRIMARY KEY (location, mc_server)
+            )
+        `).then(() => undefined),
+    },
+    {
+        version: 9,
+        name: "subscriptions",
+        up: (conn) => conn.query(`
+            CREATE TABLE subscriptions (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                owner VARCHAR(32) NOT NULL,
+                name VARCHAR(64) NOT NULL,
+                channel VARCHAR(32) NULL,
+                mc_server VARCHAR(64) NULL,
+                event_types JSON NOT NULL,
+                fence JSON NOT NULL,
+                created_at DATETIME(3) NOT NULL,
+                INDEX (owner)
+            )
+        `).then(() => undefined),
+    },
+    {
+        version: 10,
+        name: "spawn_labels",
+        up: (conn) => conn.query(`
+            CREATE TABLE spawn_labels (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                spawn_uid CHAR(36) NOT NULL,
+                kind VARCHAR(16) NOT NULL,
+                base VARCHAR(64) NULL,
+                x DOUBLE NULL,
+                z DOUBLE NULL,
+                author VARCHAR(32) NOT NULL,
+                created_at DATETIME(3) NOT NULL,
+                INDEX (spawn_uid)
+            )
+        `).then(() => undefined),
+    },
+    {
+        version: 11,
+        name: "spawn_time_millis",
+        up: async (conn) => {
+            // A TIMESTAMP keeps whole seconds, millisecond since/until bounds could count a spawn on the wrong side
+            await conn.query(`
+                ALTER TABLE wither_logs
+                    MODIFY COLUMN created_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3)
+            `);
+            // The time of the first observation is the spawn's observedAt, rows logged before observations have none
+            await conn.query(`
+                UPDATE wither_logs w
+                JOIN (SELECT spawn_id, MIN(received_at) AS observed_at FROM spawn_observations GROUP BY spawn_id) o
+                    ON o.spawn_id = w.id
+                SET w.created_at = o.observed_at
+            `);
+        },
+    },
+];
@@ -0,0 +1,389 @@
+import mysql from "mysql2/promise";
+import type { Base, KnownLocation, SiteEstimate, SpawnQuery, SpawnLabel, SpawnRecord, StoredSpawn, Subscription } from "../types";
+import type { SpawnStorage } from "./index";
+import { migrations } from "./migrations";
+import { pageOf } from "./query";
+
+/**
+ * Builds the WHERE clause for a spawn query.
+ */
+function whereClause(query: SpawnQuery): { sql: string, values: (string | number | Date)[] } {
+    const clauses: string[] = [];
+    const values: (string | number | Date)[] = [];
+
+    if (query.server != null) {
+        clauses.push("mc_server = ?");
+        values.push(query.server);
+    }
+    if (query.eventType != null) {
+        clauses.push("event_type = ?");
+        values.push(query.eventType);
+    }
+    if (query.location != null) {
+        clauses.push("location = ?");
+        values.push(query.location);
+    }
+    if (query.since != null) {
+        clauses.push("created_at >= ?");
+        values.push(new Date(query.since));
+    }
+    if (query.until != null) {
+        clauses.push("created_at < ?");
+        values.push(new Date(query.until));
+    }
+    if (query.bbox) {
+        clauses.push("x BETWEEN ? AND ? AND z BETWEEN ? AND ?");
+        values.push(query.bbox.minX, query.bbox.maxX, query.bbox.minZ, query.bbox.maxZ);
+    }
+    if (query.near) {
+        const { x, z, radius } = query.near;
+        // The bounding box lets the (x, z) index do the rough cut.
+        clauses.push("x BETWEEN ? AND ? AND z BETWEEN ? AND ? AND POW(x - ?, 2) + POW(z - ?, 2) <= ?");
+        values.push(x - radius, x + radius, z - radius, z + radius, x, z, radius * radius);
+    }
+
+    return { sql: clauses.length === 0 ? "" : `WHERE ${clauses.join(" AND ")}`, values };
+}
+
+function pageClause(query: SpawnQuery): string {
+    const { limit, offset } = pageOf(query);
+    return `LIMIT ${limit} OFFSET ${offset}`;
+}
+
+function toStoredSpawn(row: mysql.RowDataPacket): StoredSpawn {
+    const polygon = typeof row.region === "string" ? JSON.parse(row.region) : row.region;
+    return {
+        id: row.id,
+        uid: row.uid,
+        server: row.mc_server,
+        eventType: row.event_type,
+        x: row.x,
+        y: row.y,
+        z: row.z,
+        solver: row.solver,
+        errorRadius: row.error_radius,
+        observedAt: new Date(row.created_at).getTime(),
+        region: polygon == null ? null : {
+            polygon,
+            area: row.region_area,
+            centroid: { x: row.region_cx, z: row.region_cz },
+            diameter: row.region_diameter,
+        },
+        location: row.location,
+    };
+}
+
+function toBase(row: mysql.RowDataPacket): Base {
+    return {
+        name: row.name,
+        server: row.mc_server,
+        centroid: { x: row.cx, z: row.cz },
+        extent: { minX: row.min_x, maxX: row.max_x, minZ: row.min_z, maxZ: row.max_z },
+        spawnCount: row.spawn_count,
+        firstSeen: new Date(row.first_seen).getTime(),
+        lastSeen: new Date(row.last_seen).getTime(),
+        activity: typeof row.activity === "string" ? JSON.parse(row.activity) : row.activity,
+    };
+}
+
+function toKnownLocation(row: mysql.RowDataPacket): KnownLocation {
+    return {
+        name: row.name,
+        server: row.mc_server,
+        x: row.x,
+        z: row.z,
+        radius: row.radius,
+        tags: typeof row.tags === "string" ? JSON.parse(row.tags) : row.tags,
+    };
+}
+
+function toSiteEstimate(row: mysql.RowDataPacket): SiteEstimate {
+    return {
+        location: row.location,
+        server: row.mc_server,
+        region: {
+            polygon: typeof row.region === "string" ? JSON.parse(row.region) : row.region,
+            area: row.region_area,
+            centroid: { x: row.region_cx, z: row.region_cz },
+            diameter: row.region_diameter,
+        },
+        spawnCount: row.spawn_count,
+        rejected: row.rejected,
+        updatedAt: new Date(row.updated_at).getTime(),
+    };
+}
+
+function toSubscription(row: mysql.RowDataPacket): Subscription {
+    return {
+        id: row.id,
+        owner: row.owner,
+        name: row.name,
+        channel: row.channel,
+        server: row.mc_server,
+        eventTypes: typeof row.event_types === "string" ? JSON.parse(row.event_types) : row.event_types,
+        fence: typeof row.fence === "string" ? JSON.parse(row.fence) : row.fence,
+        createdAt: new Date(row.created_at).getTime(),
+    };
+}
+
+function toSpawnLabel(row: mysql.RowDataPacket): SpawnLabel {
+    return {
+        spawnUid: row.spawn_uid,
+        kind: row.kind,
+        base: row.base,
+        x: row.x,
+        z: row.z,
+        author: row.author,
+        createdAt: new Date(row.created_at).getTime(),
+    };
+}
+
+export default class MysqlStorage implements SpawnStorage {
+    private pool: mysql.Pool;
+    constructor() {
+        this.pool = mysql.createPool({
+            host: process.env.db_host,
+            user: process.env.db_user,
+            password: process.env.db_password,
+            database: "wither_spawns",
+            connectionLimit: 10,
+        });
+
+        this.pool.on("connection", (connection) => {
+            console.log("Connected to database");
+        });
+    }
+
+    /**
+     * Runs every migration that has not been applied yet, see `migrations.ts`.
+     */
+    async init(): Promise<void> {
+        const conn = await this.pool.getConnection();
+        try {
+            // Two processes starting at once must not both migrate.
+            await conn.query(`SELECT GET_LOCK('wither_spawns_migrations', 60)`);
+            await conn.query(`
+                CREATE TABLE IF NOT EXISTS schema_migrations (
+                    version INT PRIMARY KEY,
+                    name VARCHAR(64) NOT NULL,
+                    applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+                )
+            `);
+            const [rows] = await conn.query<mysql.RowDataPacket[]>(`SELECT version FROM schema_migrations`);
+            const applied = new Set(rows.map((row) => row.version));
+
+            for (const migration of migrations) {
+                if (applied.has(migration.version)) continue;
+                await migration.up(conn);
+                await conn.query(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`, [migration.version, migration.name]);
+                console.log(`Applied migration ${migration.version} (${migration.name})`);
+            }
+        } finally {
+            await conn.query(`SELECT RELEASE_LOCK('wither_spawns_migrations')`).catch(() => undefined);
+            conn.release();
+        }
+    }
+
+    /**
+     * Writes a spawn and its observations, a spawn whose uid is already stored is skipped.
+     * Errors are thrown so the spool can retry.
+     */
+    async logSpawn(spawn: SpawnRecord): Promise<void> {
+        const conn = await this.pool.getConnection();
+        try {
+            await conn.beginTransaction();
+            const region = spawn.region;
+            const [result] = await conn.execute<mysql.ResultSetHeader>(
+                `INSERT INTO wither_logs
+                    (uid, mc_server, event_type, x, y, z, solver, error_radius, solve_ms, created_at,
+                     region, region_area, region_cx, region_cz, region_diameter, location)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    spawn.uid, spawn.server, spawn.eventType, spawn.x, spawn.y, spawn.z,
+                    spawn.solver, spawn.errorRadius, spawn.solveMs, new Date(spawn.observedAt),
+                    region && JSON.stringify(region.polygon), region?.area ?? null,
+                    region?.centroid.x ?? null, region?.centroid.z ?? null, region?.diameter ?? null,
+                    spawn.location,
+                ]
+            );
+
+            for (const obs of spawn.observations) {
+                await conn.execute(
+                    `INSERT INTO spawn_observations
+                        (spawn_id, listener_id, username, bot_x, bot_y, bot_z, rel_x, rel_y, rel_z, offset_dx, offset_dz, view_distance, received_at)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        result.insertId, obs.listener, obs.username,
+                        obs.bPosition.x, obs.bPosition.y, obs.bPosition.z,
+                        obs.wPosition.x, obs.wPosition.y, obs.wPosition.z,
+                        obs.offset.dx, obs.offset.dz,
+                        obs.viewDistance, new Date(obs.receivedAt),
+                    ]
+                );
+            }
+            await conn.commit();
+        } catch (error) {
+            await conn.rollback().catch(() => undefined);
+            if ((error as { code?: string }).code === "ER_DUP_ENTRY") return;
+            throw error;
+        } finally {
+            conn.release();
+        }
+    }
+
+    /**
+     * Spawns matching the query, newest first.
+     */
+    async findSpawns(query: SpawnQuery = {}): Promise<StoredSpawn[]> {
+        const where = whereClause(query);
+        const [rows] = await this.pool.query<mysql.RowDataPacket[]>(
+            `SELECT * FROM wither_logs ${where.sql} ORDER BY created_at DESC, id DESC ${pageClause(query)}`,
+            where.values
+        );
+        return rows.map(toStoredSpawn);
+    }
+
+    /**
+     * Number of spawns matching the query, ignoring its pagination.
+     */
+    async countSpawns(query: SpawnQuery = {}): Promise<number> {
+        const where = whereClause(query);
+        const [rows] = await this.pool.query<mysql.RowDataPacket[]>(`SELECT COUNT(*) AS n FROM wither_logs ${where.sql}`, where.values);
+        return rows[0].n;
+    }
+
+    /**
+     * The spawns closest to a coordinate that match the query, nearest first.
+     */
+    async nearestSpawns(x: number, z: number, n: number, query: SpawnQuery = {}): Promise<StoredSpawn[]> {
+        const where = whereClause(query);
+        const [rows] = await this.pool.query<mysql.RowDataPacket[]>(
+            `SELECT * FROM wither_logs ${where.sql} ORDER BY POW(x - ?, 2) + POW(z - ?, 2) ${pageClause({ ...query, limit: n })}`,
+            [...where.values, x, z]
+        );
+        return rows.map(toStoredSpawn);
+    }
+
+    async getSpawn(uid: string): Promise<StoredSpawn | null> {
+        const [rows] = await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM wither_logs WHERE uid = ?`, [uid]);
+        return rows.length === 0 ? null : toStoredSpawn(rows[0]);
+    }
+
+    async listBases(server?: string): Promise<Base[]> {
+        const [rows] = server == null
+            ? await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM bases ORDER BY name`)
+            : await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM bases WHERE mc_server = ? ORDER BY name`, [server]);
+        return rows.map(toBase);
+    }
+
+    async getBase(name: string): Promise<Base | null> {
+        const [rows] = await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM bases WHERE name = ?`, [name]);
+        return rows.length === 0 ? null : toBase(rows[0]);
+    }
+
+    async saveBase(base: Base): Promise<void> {
+        await this.pool.execute(
+            `INSERT INTO bases
+                (name, mc_server, cx, cz, min_x, max_x, min_z, max_z, spawn_count, first_seen, last_seen, activity)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON DUPLICATE KEY UPDATE
+                mc_server = VALUES(mc_server), cx = VALUES(cx), cz = VALUES(cz),
+                min_x = VALUES(min_x), max_x = VALUES(max_x), min_z = VALUES(min_z), max_z = VALUES(max_z),
+                spawn_count = VALUES(spawn_count), first_seen = VALUES(first_seen), last_seen = VALUES(last_seen),
+                activity = VALUES(activity)`,
+            [
+                base.name, base.server, base.centroid.x, base.centroid.z,
+                base.extent.minX, base.extent.maxX, base.extent.minZ, base.extent.maxZ,
+                base.spawnCount, new Date(base.firstSeen), new Date(base.lastSeen), JSON.stringify(base.activity),
+            ]
+        );
+    }
+
+    async deleteBase(name: string): Promise<void> {
+        await this.pool.execute(`DELETE FROM bases WHERE name = ?`, [name]);
+    }
+
+    async listLocations(): Promise<KnownLocation[]> {
+        const [rows] = await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM known_locations ORDER BY name`);
+        return rows.map(toKnownLocation);
+    }
+
+    async saveLocation(location: KnownLocation): Promise<void> {
+        await this.pool.execute(
+            `INSERT INTO known_locations (name, mc_server, x, z, radius, tags)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON DUPLICATE KEY UPDATE
+                mc_server = VALUES(mc_server), x = VALUES(x), z = VALUES(z), radius = VALUES(radius), tags = VALUES(tags)`,
+            [location.name, location.server, location.x, location.z, location.radius, JSON.stringify(location.tags)]
+        );
+    }
+
+    async deleteLocation(name: string): Promise<void> {
+        await this.pool.execute(`DELETE FROM known_locations WHERE name = ?`, [name]);
+    }
+
+    async listSiteEstimates(location?: string): Promise<SiteEstimate[]> {
+        const [rows] = location == null
+            ? await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM site_estimates ORDER BY location, mc_server`)
+            : await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM site_estimates WHERE location = ? ORDER BY mc_server`, [location]);
+        return rows.map(toSiteEstimate);
+    }
+
+    async saveSiteEstimate(estimate: SiteEstimate): Promise<void> {
+        const region = estimate.region;
+        await this.pool.execute(
+            `INSERT INTO site_estimates
+                (location, mc_server, region, region_area, region_cx, region_cz, region_diameter, spawn_count, rejected, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON DUPLICATE KEY UPDATE
+                region = VALUES(region), region_area = VALUES(region_area), region_cx = VALUES(region_cx),
+                region_cz = VALUES(region_cz), region_diameter = VALUES(region_diameter),
+                spawn_count = VALUES(spawn_count), rejected = VALUES(rejected), updated_at = VALUES(updated_at)`,
+            [
+                estimate.location, estimate.server, JSON.stringify(region.polygon), region.area,
+                region.centroid.x, region.centroid.z, region.diameter,
+                estimate.spawnCount, estimate.rejected, new Date(estimate.updatedAt),
+            ]
+        );
+    }
+
+    async listSubscriptions(): Promise<Subscription[]> {
+        const [rows] = await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM subscriptions ORDER BY id`);
+        return rows.map(toSubscription);
+    }
+
+    async addSubscription(subscription: Omit<Subscription, "id">): Promise<Subscription> {
+        const [result] = await this.pool.execute<mysql.ResultSetHeader>(
+            `INSERT INTO subscriptions (owner, name, channel, mc_server, event_types, fence, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+                subscription.owner, subscription.name, subscription.channel, subscription.server,
+                JSON.stringify(subscription.eventTypes), JSON.stringify(subscription.fence), new Date(subscription.createdAt),
+            ]
+        );
+        return { ...subscription, id: result.insertId };
+    }
+
+    async deleteSubscription(id: number): Promise<void> {
+        await this.pool.execute(`DELETE FROM subscriptions WHERE id = ?`, [id]);
+    }
+
+    async addLabel(label: SpawnLabel): Promise<void> {
+        await this.pool.execute(
+            `INSERT INTO spawn_labels (spawn_uid, kind, base, x, z, author, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [label.spawnUid, label.kind, label.base, label.x, label.z, label.author, new Date(label.createdAt)]
+        );
+    }
+
+    async listLabels(spawnUid?: string): Promise<SpawnLabel[]> {
+        const [rows] = spawnUid == null
+            ? await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM spawn_labels ORDER BY id`)
+            : await this.pool.query<mysql.RowDataPacket[]>(`SELECT * FROM spawn_labels WHERE spawn_uid = ? ORDER BY id`, [spawnUid]);
+        return rows.map(toSpawnLabel);
+    }
+
+    async close(): Promise<void> {
+        await this.pool.end();
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import type { Base, SpawnQuery, StoredSpawn } from "../types";
+import type { SpawnStorage } from "./index";
+
+export const defaultLimit = 100;
+export const maxLimit = 1000;
+
+export function pageOf(query: SpawnQuery): { limit: number, offset: number } {
+    return {
+        limit: Math.max(1, Math.min(maxLimit, Math.floor(query.limit ?? defaultLimit))),
+        offset: Math.max(0, Math.floor(query.offset ?? 0)),
+    };
+}
+
+/**
+ * In-process equivalent of the MySQL backend's WHERE clause.
+ */
+export function matchesSpawnQuery(spawn: StoredSpawn, query: SpawnQuery): boolean {
+    if (query.server != null && spawn.server !== query.server) return false;
+    if (query.eventType != null && spawn.eventType !== query.eventType) return false;
+    if (query.location != null && spawn.location !== query.location) return false;
+    if (query.since != null && spawn.observedAt < query.since) return false;
+    if (query.until != null && spawn.observedAt >= query.until) return false;
+    if (query.bbox) {
+        const { minX, maxX, minZ, maxZ } = query.bbox;
+        if (spawn.x < minX || spawn.x > maxX || spawn.z < minZ || spawn.z > maxZ) return false;
+    }
+    if (query.near) {
+        const { x, z, radius } = query.near;
+        if ((spawn.x - x) ** 2 + (spawn.z - z) ** 2 > radius * radius) return false;
+    }
+    return true;
+}
+
+/**
+ * Every spawn matching the query from its offset on, fetched page by page. The query's limit is ignored.
+ */
+export async function findAllSpawns(storage: SpawnStorage, query: SpawnQuery = {}): Promise<StoredSpawn[]> {
+    const spawns: StoredSpawn[] = [];
+    for (let offset = query.offset ?? 0; ; offset += maxLimit) {
+        const page = await storage.findSpawns({ ...query, limit: maxLimit, offset });
+        spawns.push(...page);
+        if (page.length < maxLimit) return spawns;
+    }
+}
+
+/**
+ * Applies the query to bases, the location filters look at the centroid and the time filters at the activity span.
+ */
+export function matchesBaseQuery(base: Base, query: SpawnQuery): boolean {
+    if (query.server != null && base.server !== query.server) return false;
+    if (query.since != null && base.lastSeen < query.since) return false;
+    if (query.until != null && base.firstSeen >= query.until) return false;
+    const { x, z } = base.centroid;
+    if (query.bbox) {
+        const { minX, maxX, minZ, maxZ } = query.bbox;
+        if (x < minX || x > maxX || z < minZ || z > maxZ) return false;
+    }
+    if (query.near && Math.hypot(x - query.near.x, z - query.near.z) > query.near.radius) return false;
+    return true;
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Spool from "./spool";
+import MemoryStorage from "./memory";
+import type { SpawnRecord } from "../types";
+
+function spawn(uid: string): SpawnRecord {
+    return {
+        uid,
+        server: "main",
+        eventType: "wither_spawned",
+        x: 100,
+        y: 64,
+        z: -200,
+        solver: "linear",
+        errorRadius: 3,
+        solveMs: 1,
+        observedAt: 0,
+        region: null,
+        location: null,
+        observations: [],
+    };
+}
+
+/** Memory storage rejecting one spawn the way MySQL rejects a value that does not fit its column. */
+class PoisonedStorage extends MemoryStorage {
+    constructor(private poison: string) {
+        super();
+    }
+
+    async logSpawn(record: SpawnRecord): Promise<void> {
+        if (record.uid === this.poison) {
+            throw Object.assign(new Error("Data too long for column 'mc_server'"), { code: "ER_DATA_TOO_LONG" });
+        }
+        await super.logSpawn(record);
+    }
+}
+
+async function until(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 200 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+test("a spawn the storage rejects is dead-lettered and the spool keeps draining", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "spool-"));
+    const file = path.join(dir, "spool.jsonl");
+    const storage = new PoisonedStorage("poison");
+    const spool = new Spool(storage, file);
+    try {
+        await spool.init();
+        await spool.logSpawn(spawn("poison"));
+        await spool.logSpawn(spawn("healthy"));
+        await until(() => spool.backlog === 0);
+
+        assert.equal(spool.backlog, 0);
+        assert.deepEqual((await storage.findSpawns()).map((s) => s.uid), ["healthy"]);
+        const dead = fs.readFileSync(`${file}.dead`, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+        assert.deepEqual(dead.map((entry) => entry.spawn.uid), ["poison"]);
+    } finally {
+        await spool.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,224 @@
+import fs from "fs";
+import type { Base, KnownLocation, SiteEstimate, SpawnQuery, SpawnLabel, SpawnRecord, StoredSpawn, Subscription } from "../types";
+import type { SpawnStorage } from "./index";
+
+/**
+ * Retry backoff, the delay doubles every failed attempt up to `maxDelay` and is jittered by ±50%.
+ */
+const retry = {
+    baseDelay: 1000,
+    maxDelay: 60 * 1000,
+};
+
+/**
+ * Error codes of an unreachable, restarting or briefly contended storage, a write failing with one is retried.
+ * Any other failure is the spawn's own, retrying it would hold up every spawn behind it.
+ */
+const transientCodes = new Set([
+    "ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EPIPE", "EHOSTUNREACH", "ENOTFOUND", "EAI_AGAIN",
+    "PROTOCOL_CONNECTION_LOST", "PROTOCOL_SEQUENCE_TIMEOUT", "ER_CON_COUNT_ERROR", "ER_TOO_MANY_USER_CONNECTIONS",
+    "ER_SERVER_SHUTDOWN", "ER_LOCK_DEADLOCK", "ER_LOCK_WAIT_TIMEOUT", "ER_READ_ONLY_MODE",
+]);
+
+function isTransient(error: unknown): boolean {
+    const { code, fatal } = (error ?? {}) as { code?: string, fatal?: boolean };
+    // mysql2 marks errors that broke the connection as fatal
+    return fatal === true || (code != null && transientCodes.has(code));
+}
+
+/**
+ * One line of the spool file, a spawn waiting to be written or the acknowledgement that it was.
+ */
+type SpoolEntry = { spawn: SpawnRecord } | { ack: string };
+
+/**
+ * Write-behind spool in front of another storage. Every spawn is appended to a local file before
+ * `logSpawn` returns, then written to the storage in order, retrying with backoff while it is down.
+ * A spawn the storage rejects for any other reason is moved to the dead-letter file instead.
+ * Spawns still in the file are written again after a restart, the storage ignores uids it already has.
+ * Everything else goes straight to the storage.
+ */
+export default class Spool implements SpawnStorage {
+    private queue: SpawnRecord[] = [];
+    private ready = false;
+    private draining = false;
+    private attempts = 0;
+    private timer?: NodeJS.Timeout;
+    private closed = false;
+    private onReady!: () => void;
+
+    /** Resolves once the storage has been initialised. */
+    public readonly storageReady = new Promise<void>((resolve) => this.onReady = resolve);
+
+    constructor(private storage: SpawnStorage, private file: string, private deadLetterFile = `${file}.dead`) {}
+
+    /** Spawns not written to the storage yet. */
+    public get backlog(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Loads whatever a previous run left in the spool file, then initialises the storage in the background
+     * so an unreachable database does not stop spawns from being spooled.
+     */
+    async init(): Promise<void> {
+        if (fs.existsSync(this.file)) {
+            const pending = new Map<string, SpawnRecord>();
+            for (const line of fs.readFileSync(this.file, "utf8").split("\n")) {
+                if (line.trim().length === 0) continue;
+                try {
+                    const entry: SpoolEntry = JSON.parse(line);
+                    if ("ack" in entry) pending.delete(entry.ack);
+                    else pending.set(entry.spawn.uid, entry.spawn);
+                } catch {
+                    console.warn(`Skipping malformed line in spool ${this.file}.`);
+                }
+            }
+            this.queue = [...pending.values()];
+        }
+        this.rewrite();
+        if (this.queue.length > 0) {
+            console.log(`Spool ${this.file} has ${this.queue.length} spawns left from the last run.`);
+        }
+        this.drain();
+    }
+
+    async logSpawn(spawn: SpawnRecord): Promise<void> {
+        fs.appendFileSync(this.file, JSON.stringify({ spawn }) + "\n");
+        this.queue.push(spawn);
+        this.drain();
+    }
+
+    /**
+     * Writes the queue head first until it is empty, a transient failure schedules a retry of the same spawn.
+     */
+    private async drain(): Promise<void> {
+        if (this.draining || this.timer || this.closed) return;
+        this.draining = true;
+        try {
+            if (!this.ready) {
+                await this.storage.init();
+                this.ready = true;
+                this.onReady();
+            }
+            while (this.queue.length > 0 && !this.closed) {
+                const spawn = this.queue[0];
+                try {
+                    await this.storage.logSpawn(spawn);
+                } catch (error) {
+                    if (isTransient(error)) throw error;
+                    this.deadLetter(spawn, error);
+                }
+                this.queue.shift();
+                fs.appendFileSync(this.file, JSON.stringify({ ack: spawn.uid }) + "\n");
+            }
+            this.attempts = 0;
+            if (this.queue.length === 0) this.rewrite();
+        } catch (error) {
+            this.attempts++;
+            const delay = Math.min(retry.maxDelay, retry.baseDelay * 2 ** (this.attempts - 1)) * (0.5 + Math.random());
+            console.error(`Storage write failed, ${this.queue.length} spawns spooled, retrying in ${Math.round(delay / 1000)}s:`, error);
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.drain();
+            }, delay);
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    private deadLetter(spawn: SpawnRecord, error: unknown): void {
+        fs.appendFileSync(this.deadLetterFile, JSON.stringify({ spawn, error: String(error), at: Date.now() }) + "\n");
+        console.error(`Storage rejected spawn ${spawn.uid}, moved it to ${this.deadLetterFile}:`, error);
+    }
+
+    /**
+     * Replaces the spool file with just the pending spawns, keeps it from growing forever.
+     */
+    private rewrite(): void {
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, this.queue.map((spawn) => JSON.stringify({ spawn }) + "\n").join(""));
+        fs.renameSync(tmp, this.file);
+    }
+
+    findSpawns(query?: SpawnQuery): Promise<StoredSpawn[]> {
+        return this.storage.findSpawns(query);
+    }
+
+    countSpawns(query?: SpawnQuery): Promise<number> {
+        return this.storage.countSpawns(query);
+    }
+
+    nearestSpawns(x: number, z: number, n: number, query?: SpawnQuery): Promise<StoredSpawn[]> {
+        return this.storage.nearestSpawns(x, z, n, query);
+    }
+
+    getSpawn(uid: string): Promise<StoredSpawn | null> {
+        return this.storage.getSpawn(uid);
+    }
+
+    listBases(server?: string): Promise<Base[]> {
+        return this.storage.listBases(server);
+    }
+
+    getBase(name: string): Promise<Base | null> {
+        return this.storage.getBase(name);
+    }
+
+    saveBase(base: Base): Promise<void> {
+        return this.storage.saveBase(base);
+    }
+
+    deleteBase(name: string): Promise<void> {
+        return this.storage.deleteBase(name);
+    }
+
+    listLocations(): Promise<KnownLocation[]> {
+        return this.storage.listLocations();
+    }
+
+    saveLocation(location: KnownLocation): Promise<void> {
+        return this.storage.saveLocation(location);
+    }
+
+    deleteLocation(name: string): Promise<void> {
+        return this.storage.deleteLocation(name);
+    }
+
+    listSiteEstimates(location?: string): Promise<SiteEstimate[]> {
+        return this.storage.listSiteEstimates(location);
+    }
+
+    saveSiteEstimate(estimate: SiteEstimate): Promise<void> {
+        return this.storage.saveSiteEstimate(estimate);
+    }
+
+    listSubscriptions(): Promise<Subscription[]> {
+        return this.storage.listSubscriptions();
+    }
+
+    addSubscription(subscription: Omit<Subscription, "id">): Promise<Subscription> {
+        return this.storage.addSubscription(subscription);
+    }
+
+    deleteSubscription(id: number): Promise<void> {
+        return this.storage.deleteSubscription(id);
+    }
+
+    addLabel(label: SpawnLabel): Promise<void> {
+        return this.storage.addLabel(label);
+    }
+
+    listLabels(spawnUid?: string): Promise<SpawnLabel[]> {
+        return this.storage.listLabels(spawnUid);
+    }
+
+    /**
+     * Stops retrying and closes the storage, anything still spooled is written on the next start.
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        clearTimeout(this.timer);
+        await this.storage.close();
+    }
+}
@@ -0,0 +1,111 @@
+import type { Announcer, Fence, SpawnRecord, Subscription } from "./types";
+import type { SpawnStorage } from "./storage";
+import type LocationRegistry from "./locations";
+import { circlePolygon, polygonIntersectsCircle, polygonsIntersect } from "./drawing/polygonUtils";
+import { getWorldEvent } from "./worldEvents";
+
+export const subscriptionPolicy = {
+    /** Subscriptions one member can have. */
+    maxPerMember: process.env.max_subscriptions == null ? 10 : parseInt(process.env.max_subscriptions),
+    /** Corners a polygon fence can have. */
+    maxCorners: 32,
+};
+
+/**
+ * Whether the spawn's error region, or without one its error radius around the estimate, touches the fence.
+ * A location fence whose location is gone touches nothing.
+ */
+export function fenceReaches(spawn: Pick<SpawnRecord, "x" | "z" | "errorRadius" | "region">, fence: Fence, locations: LocationRegistry): boolean {
+    const region = spawn.region?.polygon ?? circlePolygon(spawn, spawn.errorRadius);
+    switch (fence.kind) {
+        case "circle":
+            return polygonIntersectsCircle(region, fence, fence.radius);
+        case "polygon":
+            return polygonsIntersect(region, fence.points);
+        case "location": {
+            const location = locations.get(fence.name);
+            return location != null && polygonIntersectsCircle(region, location, location.radius);
+        }
+    }
+}
+
+export function describeFence(fence: Fence): string {
+    switch (fence.kind) {
+        case "circle": return `${fence.radius} blocks around ${Math.round(fence.x)}, ${Math.round(fence.z)}`;
+        case "polygon": return `polygon of ${fence.points.length} corners`;
+        case "location": return `known location ${fence.name}`;
+    }
+}
+
+/**
+ * The alert subscriptions, kept in storage and cached so every spawn can be checked without a query.
+ */
+export default class SubscriptionRegistry {
+    private subscriptions: Subscription[] = [];
+
+    constructor(private storage: SpawnStorage, private locations: LocationRegistry) {}
+
+    async load(): Promise<void> {
+        this.subscriptions = await this.storage.listSubscriptions();
+        console.log(`Loaded ${this.subscriptions.length} alert subscriptions.`);
+    }
+
+    /** Subscriptions of one member, or of everyone. */
+    public list(owner?: string): Subscription[] {
+        return this.subscriptions.filter((s) => owner == null || s.owner === owner);
+    }
+
+    async add(subscription: Omit<Subscription, "id">): Promise<Subscription> {
+        const added = await this.storage.addSubscription(subscription);
+        this.subscriptions = [...this.subscriptions, added];
+        return added;
+    }
+
+    /**
+     * Deletes one of the member's subscriptions, false when they have none with that id.
+     */
+    async remove(owner: string, id: number): Promise<boolean> {
+        if (!this.subscriptions.some((s) => s.id === id && s.owner === owner)) return false;
+        await this.storage.deleteSubscription(id);
+        this.subscriptions = this.subscriptions.filter((s) => s.id !== id);
+        return true;
+    }
+
+    public matching(spawn: SpawnRecord): Subscription[] {
+        return this.subscriptions.filter((s) =>
+            (s.server == null || s.server === spawn.server)
+            && (s.eventTypes.length === 0 || s.eventTypes.includes(spawn.eventType))
+            && fenceReaches(spawn, s.fence, this.locations));
+    }
+
+    /**
+     * Alerts everyone whose fence the spawn reaches: one direct message per member,
+     * one message per channel pinging every member subscribed there.
+     */
+    async notify(spawn: SpawnRecord, announcer: Announcer): Promise<void> {
+        const matches = this.matching(spawn);
+        if (matches.length === 0) return;
+
+        const worldEvent = getWorldEvent(spawn.eventType);
+        const summary = `🔔 **${worldEvent.title}** on ${spawn.server} at ${Math.round(spawn.x)}, ${Math.round(spawn.z)} ±${spawn.errorRadius.toFixed(1)}`;
+        const names = (subs: Subscription[]) => subs.map((s) => `"${s.name}"`).join(", ");
+
+        const direct = new Map<string, Subscription[]>();
+        const channels = new Map<string, Subscription[]>();
+        for (const subscription of matches) {
+            const groups = subscription.channel == null ? direct : channels;
+            const key = subscription.channel ?? subscription.owner;
+            groups.set(key, [...(groups.get(key) ?? []), subscription]);
+        }
+
+        const sends: Promise<void>[] = [];
+        for (const [owner, subs] of direct) {
+            sends.push(announcer.sendDirectMessage(owner, `${summary}, it may be inside your alert ${names(subs)}.`));
+        }
+        for (const [channel, subs] of channels) {
+            const mentions = [...new Set(subs.map((s) => `<@${s.owner}>`))].join(" ");
+            sends.push(announcer.sendMessageToChannel(channel, `${mentions} ${summary}, it may be inside alert ${names(subs)}.`));
+        }
+        await Promise.all(sends);
+    }
+}
@@ -1,6 +1,262 @@
 import { Vec3 } from "vec3";
+import type { WorldEventName } from "./worldEvents";
+import type { ErrorRegion, Point } from "./drawing/polygonUtils";
+
 export interface Soundwave {
+    event: WorldEventName,
     user: string,
     bPosition: Vec3,
-    wPosition: Vec3
-}
\ No newline at end of file
+    wPosition: Vec3,
+    /** Epoch millis at which the packet was received by the listener. */
+    receivedAt: number
+}
+
+export interface Position {
+    x: number,
+    y: number,
+    z: number
+}
+
+/**
+ * One account of the listener fleet.
+ */
+export interface ListenerAccount {
+    /** Stable id, used to key the account's soundwaves. */
+    id: number,
+    username: string,
+    /** `microsoft` for premium servers, tokens are cached in the profiles directory. */
+    auth: "offline" | "microsoft",
+    /** Where the bot is supposed to stand. */
+    target?: Position,
+    /** Client view distance in chunks. */
+    viewDistance: number
+}
+
+/**
+ * One Minecraft server and the fleet that watches it.
+ */
+export interface ServerConfig {
+    /** Server tag stamped on every logged spawn. */
+    name: string,
+    host: string,
+    port: number,
+    version?: string,
+    /** Discord channel events of this server are announced in. */
+    channel: string,
+    /** How long (ms) after the first soundwave of an event we wait for the other listeners. */
+    correlationWindow: number,
+    /** Solvers to try in order, see `src/solver.ts` for the available names. */
+    solvers: string[],
+    accounts: ListenerAccount[]
+}
+
+/**
+ * One listener's contribution to a spawn, as it was fed to the solver.
+ */
+export interface ObservationRecord {
+    listener: number,
+    username: string,
+    bPosition: Position,
+    /** The position reported in the packet. */
+    wPosition: Position,
+    /** Offset from the reported position to the point the solver settled on, within the truncation cell. */
+    offset: { dx: number, dz: number },
+    viewDistance: number,
+    receivedAt: number
+}
+
+/**
+ * A resolved event with everything needed to audit or re-solve it.
+ */
+export interface SpawnRecord {
+    /** Generated when the event is resolved, identifies the spawn across systems. */
+    uid: string,
+    server: string,
+    eventType: WorldEventName,
+    x: number,
+    y: number,
+    z: number,
+    solver: string,
+    errorRadius: number,
+    /** Time spent in the solver, in ms. */
+    solveMs: number,
+    /** Epoch millis of the first soundwave of the event. */
+    observedAt: number,
+    /** Region consistent with all observations, null when they do not bound one. */
+    region: ErrorRegion | null,
+    /** Name of the known location the spawn matched, see `locations.ts`. */
+    location: string | null,
+    observations: ObservationRecord[]
+}
+
+/**
+ * Where resolved events are stored, see `SpawnStorage` for the full interface.
+ */
+export interface SpawnLog {
+    logSpawn(spawn: SpawnRecord): Promise<void>;
+}
+
+/**
+ * Where resolved events and fleet problems are announced, implemented by `Discord`.
+ */
+export interface Announcer {
+    sendMessageToChannel(channelId: string, message: string): Promise<void>;
+    sendDirectMessage(userId: string, message: string): Promise<void>;
+    sendCoordinatesEmbed(
+        channelId: string,
+        color: string,
+        /** Without y when the height is not known. */
+        coordinates: Omit<Position, "y"> & { y?: number },
+        title: string,
+        serverName: string,
+        details?: EmbedDetails,
+    ): Promise<void>;
+}
+
+export interface EmbedField {
+    name: string,
+    value: string,
+    inline?: boolean
+}
+
+/**
+ * What an embed shows besides the coordinates.
+ */
+export interface EmbedDetails {
+    description?: string,
+    fields?: EmbedField[],
+    /** PNG shown in the embed, see `renderSpawnGraph`. */
+    image?: Buffer,
+    /** Spawn the feedback controls under the embed label, see `feedback.ts`. */
+    spawnUid?: string
+}
+
+/**
+ * A spawn as read back from storage. Rows logged before observations were stored have no uid, solver or region.
+ */
+export interface StoredSpawn {
+    id: number,
+    uid: string | null,
+    server: string,
+    eventType: WorldEventName,
+    x: number,
+    y: number,
+    z: number,
+    solver: string | null,
+    errorRadius: number | null,
+    observedAt: number,
+    region: ErrorRegion | null,
+    location: string | null
+}
+
+/**
+ * Filters for spawn queries, every given filter has to match.
+ */
+export interface SpawnQuery {
+    server?: string,
+    eventType?: WorldEventName,
+    /** Epoch millis, inclusive. */
+    since?: number,
+    /** Epoch millis, exclusive. */
+    until?: number,
+    bbox?: { minX: number, maxX: number, minZ: number, maxZ: number },
+    near?: { x: number, z: number, radius: number },
+    /** Name of the known location the spawns matched. */
+    location?: string,
+    /** Page size, defaults to 100 and is capped at 1000. */
+    limit?: number,
+    offset?: number
+}
+
+/**
+ * A place where spawns keep happening, found by clustering stored spawns, see `bases.ts`.
+ */
+export interface Base {
+    /** Stays the same when the base is recomputed. */
+    name: string,
+    server: string,
+    /** Mean spawn position, precise spawns weigh more. */
+    centroid: { x: number, z: number },
+    /** Bounding box of the spawns. */
+    extent: { minX: number, maxX: number, minZ: number, maxZ: number },
+    spawnCount: number,
+    /** Epoch millis of the first and the last spawn. */
+    firstSeen: number,
+    lastSeen: number,
+    /** Spawn counts per hour of the day (0 is midnight UTC) and per weekday (0 is Sunday). */
+    activity: { hours: number[], weekdays: number[] }
+}
+
+/**
+ * A place we already know about, spawns whose error region reaches it are attributed to it.
+ */
+export interface KnownLocation {
+    name: string,
+    /** Null when the location applies to every server. */
+    server: string | null,
+    x: number,
+    z: number,
+    radius: number,
+    /** Free-form labels such as `farm`, `base` or `test`. */
+    tags: string[]
+}
+
+/**
+ * The location of a known site refined from every spawn attributed to it, see `fusion.ts`.
+ */
+export interface SiteEstimate {
+    /** Name of the known location. */
+    location: string,
+    server: string,
+    /** Intersection of the error regions of the fused spawns, its centroid is the estimate. */
+    region: ErrorRegion,
+    /** Spawns whose region agrees with the others. */
+    spawnCount: number,
+    /** Spawns left out because their region does not overlap the others. */
+    rejected: number,
+    updatedAt: number
+}
+
+/**
+ * Area an alert subscription watches: a circle, a polygon or the circle of a known location.
+ */
+export type Fence =
+    | { kind: "circle", x: number, z: number, radius: number }
+    | { kind: "polygon", points: Point[] }
+    | { kind: "location", name: string };
+
+/**
+ * A member asking to be alerted about spawns in an area, see `subscriptions.ts`.
+ */
+export interface Subscription {
+    id: number,
+    /** Discord user id of the member. */
+    owner: string,
+    name: string,
+    /** Channel the member is pinged in, null for a direct message. */
+    channel: string | null,
+    /** Null for every server. */
+    server: string | null,
+    /** Empty for every event type. */
+    eventTypes: WorldEventName[],
+    fence: Fence,
+    createdAt: number
+}
+
+export type SpawnLabelKind = "confirmed" | "false_positive" | "base" | "ground_truth";
+
+/**
+ * What a member said about a spawn, the ground truth solvers are scored against.
+ */
+export interface SpawnLabel {
+    spawnUid: string,
+    kind: SpawnLabelKind,
+    /** Base the spawn was assigned to, only for `base`. */
+    base: string | null,
+    /** Where the event really happened, only for `ground_truth`. */
+    x: number | null,
+    z: number | null,
+    /** Discord user id of the member. */
+    author: string,
+    createdAt: number
+}
@@ -0,0 +1,26 @@
+/**
+ * Global world events, the server broadcasts these to every player with a position clamped to their view distance.
+ */
+export type WorldEventName = "wither_spawned" | "ender_dragon_death" | "end_portal_opened";
+
+export interface WorldEvent {
+    /** Effect id of the `world_event` packet. */
+    id: number;
+    name: WorldEventName;
+    /** Embed title. */
+    title: string;
+    /** Embed color, see `Discord.getEmbedColor`. */
+    color: string;
+    /** Embed description lead. */
+    description: string;
+}
+
+export const worldEvents: WorldEvent[] = [
+    { id: 1023, name: "wither_spawned", title: "Wither Spawn", color: "yellow", description: "A wither has just spawned!" },
+    { id: 1028, name: "ender_dragon_death", title: "Ender Dragon Death", color: "purple", description: "An ender dragon has just been killed!" },
+    { id: 1038, name: "end_portal_opened", title: "End Portal Opened", color: "green", description: "An end portal has just been opened, there is a stronghold here!" },
+];
+
+export function getWorldEvent(name: WorldEventName): WorldEvent {
+    return worldEvents.find((e) => e.name === name)!;
+}